@@ -16,10 +16,16 @@ declare module "hyperswarm" {
     keyPair?: { publicKey: Buffer; secretKey: Buffer };
     seed?: Buffer;
     maxPeers?: number;
-    firewall?: (remotePublicKey: string) => boolean;
+    firewall?: (remotePublicKey: Buffer, payload: unknown) => boolean;
     dht?: unknown;
   }
 
+  export interface PeerInfo {
+    publicKey: Buffer;
+    banned: boolean;
+    ban(val: boolean): void;
+  }
+
   export default class Hyperswarm extends EventEmitter {
     constructor(opts?: SwarmOptions);
     join(topic: string | Buffer, opts?: JoinOptions): Swarm;
@@ -28,7 +34,7 @@ declare module "hyperswarm" {
     flush: () => void;
     leave(topic: Buffer): void;
     destroy(): Promise<void>;
-    peers: Map<string, Peer>;
+    peers: Map<string, PeerInfo>;
     connections: Map<string, Peer>;
     connecting: boolean;
   }
@@ -39,6 +45,7 @@ declare module "hypercore-crypto" {
     keyPair: () => { publicKey: Buffer; secretKey: Buffer }
     discoveryKey: (publicKey: Buffer) => Buffer;
     sign(message, secretKey) : Buffer;
+    verify(message: Buffer, signature: Buffer, publicKey: Buffer): boolean;
   };
 
   export = hyperCoreCrypto;
@@ -0,0 +1,25 @@
+BEGIN TRANSACTION;
+
+CREATE TABLE api_keys (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    key_hash TEXT NOT NULL UNIQUE,
+    key_prefix TEXT NOT NULL,
+    requests_per_minute INTEGER,
+    daily_token_quota INTEGER,
+    allowed_models TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    last_used_at DATETIME,
+    revoked_at DATETIME
+);
+
+CREATE TABLE api_key_usage (
+    api_key_id INTEGER NOT NULL,
+    day DATE NOT NULL,
+    requests INTEGER DEFAULT 0,
+    tokens INTEGER DEFAULT 0,
+    PRIMARY KEY (api_key_id, day),
+    FOREIGN KEY(api_key_id) REFERENCES api_keys(id)
+);
+
+COMMIT;
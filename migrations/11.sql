@@ -0,0 +1,15 @@
+BEGIN TRANSACTION;
+
+CREATE TABLE rate_limits (
+    key TEXT NOT NULL,
+    window_start INTEGER NOT NULL,
+    count INTEGER DEFAULT 0,
+    expires_at INTEGER NOT NULL,
+    PRIMARY KEY (key, window_start)
+);
+
+CREATE INDEX idx_rate_limits_expires_at ON rate_limits(expires_at);
+
+DROP TABLE ip_messages;
+
+COMMIT;
@@ -0,0 +1,26 @@
+BEGIN TRANSACTION;
+
+CREATE TABLE requests (
+    id TEXT PRIMARY KEY,
+    api_key_id INTEGER,
+    client_ip TEXT NOT NULL,
+    model_name TEXT NOT NULL,
+    peer_key TEXT,
+    started_at DATETIME NOT NULL,
+    ended_at DATETIME NOT NULL,
+    time_to_first_token_ms INTEGER,
+    prompt_tokens INTEGER DEFAULT 0,
+    completion_tokens INTEGER DEFAULT 0,
+    attempts INTEGER DEFAULT 0,
+    outcome TEXT NOT NULL,
+    error TEXT,
+    FOREIGN KEY(api_key_id) REFERENCES api_keys(id)
+);
+
+CREATE INDEX idx_requests_started_at ON requests(started_at);
+CREATE INDEX idx_requests_api_key ON requests(api_key_id, started_at);
+CREATE INDEX idx_requests_client_ip ON requests(client_ip, started_at);
+
+ALTER TABLE metrics ADD COLUMN request_id TEXT;
+
+COMMIT;
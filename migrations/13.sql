@@ -0,0 +1,22 @@
+BEGIN TRANSACTION;
+
+-- `amount` is what the points were computed from: minutes for uptime, tokens
+-- for completions and 1 for penalties.
+CREATE TABLE points_ledger (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    peer_key TEXT NOT NULL,
+    reason TEXT NOT NULL,
+    points REAL NOT NULL,
+    amount REAL,
+    request_id TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(peer_key) REFERENCES peers(key)
+);
+
+CREATE INDEX idx_points_ledger_peer ON points_ledger(peer_key);
+CREATE INDEX idx_points_ledger_created_at ON points_ledger(created_at);
+
+-- Session minutes already paid out as uptime points.
+ALTER TABLE provider_sessions ADD COLUMN rewarded_minutes INTEGER DEFAULT 0;
+
+COMMIT;
@@ -0,0 +1,26 @@
+BEGIN TRANSACTION;
+
+-- When the server stored the row, in epoch milliseconds. `start_time` is
+-- reported by the provider, so older rows fall back to it.
+ALTER TABLE metrics ADD COLUMN recorded_at INTEGER;
+UPDATE metrics SET recorded_at = start_time;
+CREATE INDEX idx_metrics_recorded_at ON metrics(recorded_at);
+
+-- Hourly and daily aggregates of `metrics` and `provider_sessions`, per
+-- provider key or model name.
+CREATE TABLE metric_rollups (
+    bucket TEXT NOT NULL,
+    bucket_start TEXT NOT NULL,
+    dimension TEXT NOT NULL,
+    dimension_value TEXT NOT NULL,
+    requests INTEGER DEFAULT 0,
+    tokens INTEGER DEFAULT 0,
+    average_tokens_per_second REAL,
+    p95_tokens_per_second REAL,
+    uptime_minutes REAL DEFAULT 0,
+    PRIMARY KEY (bucket, dimension, dimension_value, bucket_start)
+);
+
+CREATE INDEX idx_metric_rollups_start ON metric_rollups(bucket, bucket_start);
+
+COMMIT;
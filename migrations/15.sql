@@ -0,0 +1,7 @@
+BEGIN TRANSACTION;
+
+-- Time a session spent disconnected within the reconnect grace period, left
+-- out of its duration.
+ALTER TABLE provider_sessions ADD COLUMN paused_seconds INTEGER DEFAULT 0;
+
+COMMIT;
@@ -0,0 +1,16 @@
+BEGIN TRANSACTION;
+
+-- Provider bans and allowlist entries, by peer key or remote host. Entries
+-- with an expiry stop applying once it has passed.
+CREATE TABLE peer_access (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    list TEXT NOT NULL,
+    target TEXT NOT NULL,
+    value TEXT NOT NULL,
+    reason TEXT,
+    expires_at DATETIME,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(list, value)
+);
+
+COMMIT;
@@ -0,0 +1,16 @@
+BEGIN TRANSACTION;
+
+-- Rejected provider joins per peer and reason, to spot abusive peers.
+CREATE TABLE join_rejections (
+    peer_key TEXT NOT NULL,
+    remote_host TEXT,
+    reason TEXT NOT NULL,
+    count INTEGER DEFAULT 1,
+    first_rejected_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    last_rejected_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (peer_key, reason)
+);
+
+CREATE INDEX idx_join_rejections_last ON join_rejections(last_rejected_at);
+
+COMMIT;
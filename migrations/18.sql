@@ -0,0 +1,17 @@
+BEGIN TRANSACTION;
+
+-- Models served by each provider, with an optional per-model limit on
+-- concurrent requests. peers.model_name is kept as the first of them.
+CREATE TABLE peer_models (
+    peer_key TEXT NOT NULL,
+    model_name TEXT NOT NULL,
+    max_connections INTEGER,
+    PRIMARY KEY (peer_key, model_name)
+);
+
+CREATE INDEX idx_peer_models_model ON peer_models(model_name);
+
+INSERT INTO peer_models (peer_key, model_name)
+SELECT key, model_name FROM peers WHERE model_name IS NOT NULL;
+
+COMMIT;
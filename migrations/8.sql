@@ -0,0 +1,6 @@
+BEGIN TRANSACTION;
+
+ALTER TABLE provider_sessions ADD COLUMN completed_requests INTEGER DEFAULT 0;
+ALTER TABLE provider_sessions ADD COLUMN cancelled_requests INTEGER DEFAULT 0;
+
+COMMIT;
@@ -0,0 +1,5 @@
+BEGIN TRANSACTION;
+
+ALTER TABLE provider_sessions ADD COLUMN timed_out_requests INTEGER DEFAULT 0;
+
+COMMIT;
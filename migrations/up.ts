@@ -15,9 +15,9 @@ async function runMigrations() {
     });
 
     const files = await fs.readdir(__dirname);
-    const migrations = files.filter(
-      (file) => file.endsWith(".sql") && file !== "seed.sql"
-    );
+    const migrations = files
+      .filter((file) => file.endsWith(".sql") && file !== "seed.sql")
+      .sort((a, b) => parseInt(a) - parseInt(b));
 
     for (const file of migrations) {
       const id = file.replace(".sql", "");
@@ -0,0 +1,335 @@
+import { InferenceRequest } from "symmetry-core";
+
+import { PendingInference } from "./inference-registry";
+import {
+  CompletionParameters,
+  CompletionRequest,
+  createUsage,
+  getFinishReason,
+} from "./openai";
+import { ResponseFormat, toSSE } from "./response-format";
+
+type ChatMessage = InferenceRequest["messages"][number];
+
+interface AnthropicContentBlock {
+  type: string;
+  text?: string;
+  id?: string;
+  name?: string;
+  input?: unknown;
+  tool_use_id?: string;
+  content?: string | AnthropicContentBlock[];
+}
+
+interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: string | AnthropicContentBlock[];
+}
+
+interface AnthropicTool {
+  name: string;
+  description?: string;
+  input_schema?: unknown;
+}
+
+interface AnthropicToolChoice {
+  type: "auto" | "any" | "tool" | "none";
+  name?: string;
+}
+
+export interface MessagesBody {
+  model?: string;
+  messages?: AnthropicMessage[];
+  system?: string | AnthropicContentBlock[];
+  max_tokens?: number;
+  stop_sequences?: string[];
+  stream?: boolean;
+  temperature?: number;
+  top_p?: number;
+  tools?: AnthropicTool[];
+  tool_choice?: AnthropicToolChoice;
+  metadata?: { user_id?: string };
+}
+
+const STOP_REASONS: Record<string, string> = {
+  length: "max_tokens",
+  stop: "end_turn",
+  tool_calls: "tool_use",
+};
+
+const ANTHROPIC_ERROR_TYPES: Record<string, string> = {
+  insufficient_quota: "rate_limit_error",
+  invalid_api_key: "authentication_error",
+  model_not_allowed: "permission_error",
+  rate_limit_exceeded: "rate_limit_error",
+  timeout: "timeout_error",
+};
+
+export const createAnthropicError = (
+  message: string,
+  type = "invalid_request_error"
+) => ({
+  type: "error",
+  error: { type, message },
+});
+
+const getText = (content: string | AnthropicContentBlock[] = "") =>
+  typeof content === "string"
+    ? content
+    : content
+        .filter((block) => block.type === "text")
+        .map((block) => block.text ?? "")
+        .join("");
+
+const toChatMessages = (message: AnthropicMessage): ChatMessage[] => {
+  if (typeof message.content === "string") {
+    return [{ role: message.role, content: message.content } as ChatMessage];
+  }
+
+  const blocks = message.content;
+  const toolResults = blocks
+    .filter((block) => block.type === "tool_result")
+    .map(
+      (block) =>
+        ({
+          role: "tool",
+          tool_call_id: block.tool_use_id,
+          content: getText(block.content),
+        } as ChatMessage)
+    );
+  const toolCalls = blocks
+    .filter((block) => block.type === "tool_use")
+    .map((block) => ({
+      id: block.id,
+      type: "function",
+      function: { name: block.name, arguments: JSON.stringify(block.input) },
+    }));
+  const text = getText(blocks);
+
+  if (message.role === "assistant") {
+    return [
+      {
+        role: "assistant",
+        content: text || null,
+        ...(toolCalls.length && { tool_calls: toolCalls }),
+      } as ChatMessage,
+    ];
+  }
+
+  return [
+    ...toolResults,
+    ...(text ? [{ role: "user", content: text } as ChatMessage] : []),
+  ];
+};
+
+const toToolChoice = (toolChoice?: AnthropicToolChoice) => {
+  switch (toolChoice?.type) {
+    case "any":
+      return "required";
+    case "tool":
+      return { type: "function", function: { name: toolChoice.name } };
+    case "auto":
+    case "none":
+      return toolChoice.type;
+  }
+};
+
+/**
+ * Maps an Anthropic Messages request onto the OpenAI-style messages and
+ * parameters providers understand. Returns an error message when the body is
+ * unusable.
+ */
+export const parseMessagesRequest = (
+  body: MessagesBody | undefined
+): CompletionRequest | string => {
+  if (typeof body?.model !== "string" || !body.model) {
+    return "model: Field required";
+  }
+
+  if (!Array.isArray(body.messages) || !body.messages.length) {
+    return "messages: at least one message is required";
+  }
+
+  const system = getText(body.system);
+  const messages: ChatMessage[] = [
+    ...(system ? [{ role: "system", content: system } as ChatMessage] : []),
+    ...body.messages.flatMap(toChatMessages),
+  ];
+
+  const parameters: CompletionParameters = {
+    max_tokens: body.max_tokens,
+    stop: body.stop_sequences,
+    temperature: body.temperature,
+    top_p: body.top_p,
+    user: body.metadata?.user_id,
+    tools: body.tools?.map((tool) => ({
+      type: "function",
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.input_schema,
+      },
+    })),
+    tool_choice: toToolChoice(body.tool_choice),
+  };
+
+  for (const key of Object.keys(parameters) as (keyof CompletionParameters)[]) {
+    if (parameters[key] === undefined) delete parameters[key];
+  }
+
+  return {
+    sessionRequest: { modelName: body.model },
+    messages,
+    parameters,
+    stream: body.stream === true,
+  };
+};
+
+const getErrorType = (code?: string) =>
+  (code && ANTHROPIC_ERROR_TYPES[code]) || "api_error";
+
+const getStopReason = (inference: PendingInference) => {
+  const finishReason = getFinishReason(inference);
+  return STOP_REASONS[finishReason] ?? finishReason;
+};
+
+const getUsage = (inference: PendingInference) => {
+  const usage = createUsage(inference);
+  return {
+    input_tokens: usage.prompt_tokens,
+    output_tokens: usage.completion_tokens,
+  };
+};
+
+const parseInput = (args: string) => {
+  try {
+    return JSON.parse(args || "{}");
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Creates the Anthropic Messages format for one inference. Streaming keeps
+ * track of the open content block, so a new format is needed per request.
+ */
+export const createAnthropicFormat = (): ResponseFormat => {
+  let blockIndex = -1;
+  let blockType: "text" | "tool_use" | null = null;
+  let toolIndex: number | undefined;
+
+  const closeBlock = () => {
+    if (!blockType) return "";
+    blockType = null;
+    return toSSE(
+      { type: "content_block_stop", index: blockIndex },
+      "content_block_stop"
+    );
+  };
+
+  const openBlock = (contentBlock: Record<string, unknown>) => {
+    const output = closeBlock();
+    blockIndex++;
+    blockType = contentBlock.type as "text" | "tool_use";
+    return (
+      output +
+      toSSE(
+        {
+          type: "content_block_start",
+          index: blockIndex,
+          content_block: contentBlock,
+        },
+        "content_block_start"
+      )
+    );
+  };
+
+  const blockDelta = (delta: Record<string, unknown>) =>
+    toSSE(
+      { type: "content_block_delta", index: blockIndex, delta },
+      "content_block_delta"
+    );
+
+  return {
+    streamStart: (inference) =>
+      toSSE(
+        {
+          type: "message_start",
+          message: {
+            id: `msg_${inference.id}`,
+            type: "message",
+            role: "assistant",
+            model: inference.sessionRequest.modelName,
+            content: [],
+            stop_reason: null,
+            stop_sequence: null,
+            usage: { input_tokens: 0, output_tokens: 0 },
+          },
+        },
+        "message_start"
+      ),
+    streamDelta: (_inference, delta) => {
+      let output = "";
+
+      if (delta.content) {
+        if (blockType !== "text")
+          output += openBlock({ type: "text", text: "" });
+        output += blockDelta({ type: "text_delta", text: delta.content });
+      }
+
+      for (const toolCall of delta.tool_calls ?? []) {
+        if (blockType !== "tool_use" || toolCall.index !== toolIndex) {
+          toolIndex = toolCall.index;
+          output += openBlock({
+            type: "tool_use",
+            id: toolCall.id,
+            name: toolCall.function?.name,
+            input: {},
+          });
+        }
+        if (toolCall.function?.arguments) {
+          output += blockDelta({
+            type: "input_json_delta",
+            partial_json: toolCall.function.arguments,
+          });
+        }
+      }
+
+      return output;
+    },
+    streamEnd: (inference) =>
+      closeBlock() +
+      toSSE(
+        {
+          type: "message_delta",
+          delta: { stop_reason: getStopReason(inference), stop_sequence: null },
+          usage: { output_tokens: getUsage(inference).output_tokens },
+        },
+        "message_delta"
+      ) +
+      toSSE({ type: "message_stop" }, "message_stop"),
+    streamError: (_inference, message, code) =>
+      toSSE(createAnthropicError(message, getErrorType(code)), "error"),
+    completion: (inference) => ({
+      id: `msg_${inference.id}`,
+      type: "message",
+      role: "assistant",
+      model: inference.sessionRequest.modelName,
+      content: [
+        ...(inference.content
+          ? [{ type: "text", text: inference.content }]
+          : []),
+        ...inference.toolCalls.map((toolCall) => ({
+          type: "tool_use",
+          id: toolCall.id,
+          name: toolCall.function.name,
+          input: parseInput(toolCall.function.arguments),
+        })),
+      ],
+      stop_reason: getStopReason(inference),
+      stop_sequence: null,
+      usage: getUsage(inference),
+    }),
+    error: (message, code) => createAnthropicError(message, getErrorType(code)),
+  };
+};
@@ -0,0 +1,97 @@
+import crypto from "node:crypto";
+
+import { BaseRepository } from "./base-repository";
+import { database } from "./database";
+import { ApiKey, ApiKeyOptions, ApiKeyRow } from "./types";
+
+const API_KEY_PREFIX = "sk-sym-";
+
+const hashKey = (key: string) =>
+  crypto.createHash("sha256").update(key).digest("hex");
+
+const toApiKey = (row: ApiKeyRow & { tokens_today: number | null }) => ({
+  ...row,
+  allowed_models: row.allowed_models ? JSON.parse(row.allowed_models) : null,
+  tokens_today: row.tokens_today || 0,
+});
+
+const SELECT_API_KEYS = `
+  SELECT k.id, k.name, k.key_prefix, k.requests_per_minute, k.daily_token_quota,
+         k.allowed_models, k.created_at, k.last_used_at, k.revoked_at,
+         u.tokens as tokens_today
+  FROM api_keys k
+  LEFT JOIN api_key_usage u ON u.api_key_id = k.id AND u.day = date('now')`;
+
+export class ApiKeyRepository extends BaseRepository {
+  constructor() {
+    super(database);
+  }
+
+  /**
+   * Issues a new key. Only its hash is stored, so the returned key is the
+   * only copy.
+   */
+  async create(name: string, options: ApiKeyOptions = {}): Promise<string> {
+    const key = API_KEY_PREFIX + crypto.randomBytes(24).toString("hex");
+
+    await this.runQuery(
+      `INSERT INTO api_keys (name, key_hash, key_prefix, requests_per_minute, daily_token_quota, allowed_models)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        name,
+        hashKey(key),
+        key.slice(0, API_KEY_PREFIX.length + 6),
+        options.requestsPerMinute ?? null,
+        options.dailyTokenQuota ?? null,
+        options.allowedModels?.length
+          ? JSON.stringify(options.allowedModels)
+          : null,
+      ]
+    );
+
+    return key;
+  }
+
+  async findByKey(key: string): Promise<ApiKey | undefined> {
+    const row = await this.getQuery<ApiKeyRow & { tokens_today: number }>(
+      `${SELECT_API_KEYS} WHERE k.key_hash = ? AND k.revoked_at IS NULL`,
+      [hashKey(key)]
+    );
+    return row && toApiKey(row);
+  }
+
+  async list(): Promise<ApiKey[]> {
+    const rows = await this.allQuery<ApiKeyRow & { tokens_today: number }>(
+      `${SELECT_API_KEYS} ORDER BY k.id`
+    );
+    return rows.map(toApiKey);
+  }
+
+  async revoke(id: number): Promise<boolean> {
+    const changes = await this.runQuery(
+      "UPDATE api_keys SET revoked_at = CURRENT_TIMESTAMP WHERE id = ? AND revoked_at IS NULL",
+      [id]
+    );
+    return changes > 0;
+  }
+
+  async logRequest(id: number): Promise<void> {
+    await this.runQuery(
+      "UPDATE api_keys SET last_used_at = CURRENT_TIMESTAMP WHERE id = ?",
+      [id]
+    );
+    await this.runQuery(
+      `INSERT INTO api_key_usage (api_key_id, day, requests) VALUES (?, date('now'), 1)
+       ON CONFLICT(api_key_id, day) DO UPDATE SET requests = requests + 1`,
+      [id]
+    );
+  }
+
+  async addTokens(id: number, tokens: number): Promise<void> {
+    await this.runQuery(
+      `INSERT INTO api_key_usage (api_key_id, day, tokens) VALUES (?, date('now'), ?)
+       ON CONFLICT(api_key_id, day) DO UPDATE SET tokens = tokens + ?`,
+      [id, tokens, tokens]
+    );
+  }
+}
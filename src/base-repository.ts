@@ -1,6 +1,11 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { Database } from "sqlite3";
 import { logger } from "./logger";
+import { serverMetrics } from "./prometheus";
+
+// Every repository shares one connection, so queries wait for a running
+// transaction rather than seeing or joining its intermediate state.
+let transactionLock: Promise<void> = Promise.resolve();
 
 export abstract class BaseRepository {
   protected readonly db: Database;
@@ -12,71 +17,139 @@ export abstract class BaseRepository {
   }
 
   protected async runQuery(sql: string, params: any[] = []): Promise<number> {
-    for (let attempt = 0; attempt < this.maxRetries; attempt++) {
-      try {
-        return await new Promise((resolve, reject) => {
-          this.db.run(sql, params, function (err) {
-            if (err) reject(err);
-            else resolve(this.changes);
+    await transactionLock;
+    return this.timed("run", async () => {
+      for (let attempt = 0; attempt < this.maxRetries; attempt++) {
+        try {
+          return await new Promise((resolve, reject) => {
+            this.db.run(sql, params, function (err) {
+              if (err) reject(err);
+              else resolve(this.changes);
+            });
           });
-        });
-      } catch (err: any) {
-        if (err.code === "SQLITE_BUSY" && attempt < this.maxRetries - 1) {
-          await new Promise((r) =>
-            setTimeout(r, this.baseDelay * Math.pow(2, attempt))
-          );
-          continue;
+        } catch (err: any) {
+          if (err.code === "SQLITE_BUSY" && attempt < this.maxRetries - 1) {
+            serverMetrics.sqliteQueryRetries.inc({ operation: "run" });
+            await new Promise((r) =>
+              setTimeout(r, this.baseDelay * Math.pow(2, attempt))
+            );
+            continue;
+          }
+          serverMetrics.sqliteQueryErrors.inc({ operation: "run" });
+          logger.error(`Database error: ${err.message}`);
+          throw err;
         }
-        logger.error(`Database error: ${err.message}`);
-        throw err;
       }
-    }
-    throw new Error("Max retries exceeded");
+      throw new Error("Max retries exceeded");
+    });
   }
 
   protected async getQuery<T>(sql: string, params: any[] = []): Promise<T> {
-    for (let attempt = 0; attempt < this.maxRetries; attempt++) {
-      try {
-        return await new Promise((resolve, reject) => {
-          this.db.get(sql, params, (err, row: T) => {
-            if (err) reject(err);
-            else resolve(row);
+    await transactionLock;
+    return this.timed("get", async () => {
+      for (let attempt = 0; attempt < this.maxRetries; attempt++) {
+        try {
+          return await new Promise((resolve, reject) => {
+            this.db.get(sql, params, (err, row: T) => {
+              if (err) reject(err);
+              else resolve(row);
+            });
           });
-        });
-      } catch (err: any) {
-        if (err.code === "SQLITE_BUSY" && attempt < this.maxRetries - 1) {
-          await new Promise((r) =>
-            setTimeout(r, this.baseDelay * Math.pow(2, attempt))
-          );
-          continue;
+        } catch (err: any) {
+          if (err.code === "SQLITE_BUSY" && attempt < this.maxRetries - 1) {
+            serverMetrics.sqliteQueryRetries.inc({ operation: "get" });
+            await new Promise((r) =>
+              setTimeout(r, this.baseDelay * Math.pow(2, attempt))
+            );
+            continue;
+          }
+          serverMetrics.sqliteQueryErrors.inc({ operation: "get" });
+          logger.error(`Database error: ${err.message}`);
+          throw err;
         }
-        logger.error(`Database error: ${err.message}`);
-        throw err;
       }
-    }
-    throw new Error("Max retries exceeded");
+      throw new Error("Max retries exceeded");
+    });
   }
 
   protected async allQuery<T>(sql: string, params: any[] = []): Promise<T[]> {
-    for (let attempt = 0; attempt < this.maxRetries; attempt++) {
-      try {
-        return await new Promise((resolve, reject) => {
-          this.db.all(sql, params, (err, rows: T[]) => {
-            if (err) reject(err);
-            else resolve(rows);
+    await transactionLock;
+    return this.timed("all", async () => {
+      for (let attempt = 0; attempt < this.maxRetries; attempt++) {
+        try {
+          return await new Promise((resolve, reject) => {
+            this.db.all(sql, params, (err, rows: T[]) => {
+              if (err) reject(err);
+              else resolve(rows);
+            });
           });
-        });
-      } catch (err: any) {
-        if (err.code === "SQLITE_BUSY" && attempt < this.maxRetries - 1) {
-          await new Promise((r) =>
-            setTimeout(r, this.baseDelay * Math.pow(2, attempt))
-          );
-          continue;
+        } catch (err: any) {
+          if (err.code === "SQLITE_BUSY" && attempt < this.maxRetries - 1) {
+            serverMetrics.sqliteQueryRetries.inc({ operation: "all" });
+            await new Promise((r) =>
+              setTimeout(r, this.baseDelay * Math.pow(2, attempt))
+            );
+            continue;
+          }
+          serverMetrics.sqliteQueryErrors.inc({ operation: "all" });
+          logger.error(`Database error: ${err.message}`);
+          throw err;
+        }
+      }
+      throw new Error("Max retries exceeded");
+    });
+  }
+
+  /**
+   * Runs the statements in a single transaction, rolled back if any of them
+   * fails. Resolves with the rows each statement changed.
+   */
+  protected async runTransaction(
+    statements: [sql: string, params: any[]][]
+  ): Promise<number[]> {
+    const previous = transactionLock;
+    let release = () => {};
+    transactionLock = new Promise((resolve) => (release = resolve));
+    await previous;
+
+    return this.timed("transaction", async () => {
+      try {
+        await this.execute("BEGIN IMMEDIATE");
+        const changes: number[] = [];
+        for (const [sql, params] of statements) {
+          changes.push(await this.execute(sql, params));
         }
+        await this.execute("COMMIT");
+        return changes;
+      } catch (err: any) {
+        serverMetrics.sqliteQueryErrors.inc({ operation: "transaction" });
         logger.error(`Database error: ${err.message}`);
+        await this.execute("ROLLBACK").catch(() => undefined);
         throw err;
+      } finally {
+        release();
       }
+    });
+  }
+
+  private execute(sql: string, params: any[] = []): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.db.run(sql, params, function (err) {
+        if (err) reject(err);
+        else resolve(this.changes);
+      });
+    });
+  }
+
+  private async timed<T>(operation: string, query: () => Promise<T>) {
+    const startedAt = performance.now();
+    try {
+      return await query();
+    } finally {
+      serverMetrics.sqliteQueryDuration.observe(
+        { operation },
+        (performance.now() - startedAt) / 1000
+      );
     }
-    throw new Error("Max retries exceeded");
   }
 }
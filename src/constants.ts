@@ -1,2 +1,113 @@
+import {
+  JoinRejectionReason,
+  LeaderboardPeriod,
+  ProviderSelectionStrategy,
+  ProviderSort,
+  RateLimitIdentity,
+  RateLimitRule,
+  RateLimitStoreType,
+  RewardWeights,
+  RollupBucket,
+  RollupDimension,
+  UsageGroup,
+} from "./types";
+
 export const MAX_RANDOM_PEER_REQUEST_ATTEMPTS = 5;
 export const MIN_SUPPORTED_SYMMETRY_CORE_VERSION = "1.0.34";
+export const PROVIDER_METRICS_WINDOW_MS = 60 * 60 * 1000;
+export const MAX_PEER_MODELS = 100;
+export const DEFAULT_PROVIDER_SELECTION_STRATEGY = "weighted";
+export const PROVIDER_SELECTION_STRATEGIES: ProviderSelectionStrategy[] = [
+  "random",
+  "weighted",
+  "least-connections",
+  "fastest",
+];
+export const DEFAULT_STICKY_ROUTING_TTL_MINUTES = 10;
+export const MAX_STICKY_ROUTES = 10000;
+export const DEFAULT_FIRST_TOKEN_TIMEOUT_MS = 30000;
+export const DEFAULT_IDLE_STREAM_TIMEOUT_MS = 30000;
+export const DEFAULT_QUEUE_MAX_DEPTH = 100;
+export const DEFAULT_QUEUE_WAIT_TIMEOUT_MS = 60000;
+export const DEFAULT_RECONNECT_GRACE_MS = 30000;
+export const DEFAULT_SHUTDOWN_TIMEOUT_MS = 30000;
+export const PROVIDER_HEADER = "X-Symmetry-Provider";
+export const PROVIDER_SORTS: ProviderSort[] = [
+  "uptime",
+  "tokens_per_second",
+  "requests",
+];
+export const DEFAULT_PROVIDER_PAGE_SIZE = 20;
+export const DEFAULT_RATE_LIMITS: RateLimitRule[] = [
+  { identity: "ip", limit: 100, windowSeconds: 60 * 60 },
+  { identity: "peer", limit: 500, windowSeconds: 60 },
+];
+export const RATE_LIMIT_IDENTITIES: RateLimitIdentity[] = [
+  "ip",
+  "apiKey",
+  "peer",
+];
+export const RATE_LIMIT_STORES: RateLimitStoreType[] = ["memory", "sqlite"];
+export const MAX_RATE_LIMIT_KEYS = 100000;
+export const USAGE_GROUPS: UsageGroup[] = [
+  "day",
+  "model",
+  "provider",
+  "client",
+];
+export const DEFAULT_USAGE_DAYS = 30;
+export const DEFAULT_REWARD_WEIGHTS: RewardWeights = {
+  uptimeMinute: 1,
+  completion: 5,
+  thousandTokens: 1,
+  healthCheckFailure: 50,
+};
+export const REWARD_UPTIME_PAYOUT_MINUTES = 60;
+export const LEADERBOARD_PERIODS: Record<LeaderboardPeriod, number | null> = {
+  day: 1,
+  week: 7,
+  month: 30,
+  all: null,
+};
+export const DEFAULT_LEADERBOARD_LIMIT = 20;
+export const METRICS_ROLLUP_INTERVAL_MS = 5 * 60 * 1000;
+export const ROLLUP_BUCKETS: Record<RollupBucket, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+};
+export const ROLLUP_DIMENSIONS: RollupDimension[] = ["provider", "model"];
+export const DEFAULT_TIMESERIES_BUCKETS = 24;
+export const TRUSTED_PROXY_NAMES = ["loopback", "linklocal", "uniquelocal"];
+export const RATE_LIMIT_HEADERS = [
+  "Retry-After",
+  "X-RateLimit-Limit",
+  "X-RateLimit-Remaining",
+  "X-RateLimit-Reset",
+];
+export const PEER_ACCESS_REFRESH_INTERVAL_MS = 60 * 1000;
+export const PEER_ACCESS_EXPIRY_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+export const JOIN_REJECTION_MESSAGES: Record<JoinRejectionReason, string> = {
+  banned: "This provider is banned from the server",
+  not_allowed: "This provider is not on the server's allowlist",
+  version_mismatch: "This version of symmetry-core is no longer supported",
+  invalid_models: "The models list is invalid",
+  unsigned: "Join requests must be signed with the provider's key",
+  invalid_signature: "The join request signature does not match its contents",
+  server_key_mismatch: "The serverKey does not match this server's public key",
+  discovery_key_mismatch:
+    "The discoveryKey does not belong to the connecting provider",
+};
+// Leaves time for a rejection to reach the peer before it is disconnected.
+export const JOIN_REJECTION_CLOSE_DELAY_MS = 1000;
+
+export const extendedServerMessageKeys = {
+  inferenceCancel: "inferenceCancel",
+  inferenceChunk: "inferenceChunk",
+  joinRejected: "joinRejected",
+  serverShutdown: "serverShutdown",
+} as const;
@@ -4,3 +4,8 @@ import sqlite3 from "sqlite3";
 const dbPath = path.join(__dirname, "../sqlite.db")
 
 export const database = new sqlite3.Database(dbPath);
+
+export const closeDatabase = () =>
+  new Promise<void>((resolve, reject) =>
+    database.close((err) => (err ? reject(err) : resolve()))
+  );
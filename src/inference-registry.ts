@@ -0,0 +1,149 @@
+import { FastifyReply } from "fastify";
+import { InferenceRequest } from "symmetry-core";
+
+import { CompletionParameters } from "./openai";
+import { ResponseFormat } from "./response-format";
+import { StreamNormalizer } from "./stream-normalizer";
+import {
+  CompletionMetrics,
+  CompletionUsage,
+  PeerSessionRequest,
+  ToolCall,
+} from "./types";
+
+export interface PendingInference {
+  id: string;
+  peerKey: string;
+  reply: FastifyReply;
+  startedAt: number;
+  endedAt?: number;
+  clientIp: string;
+  sessionRequest: PeerSessionRequest;
+  messages: InferenceRequest["messages"];
+  parameters: CompletionParameters;
+  stream: boolean;
+  format: ResponseFormat;
+  normalizer?: StreamNormalizer;
+  streamStarted?: boolean;
+  content: string;
+  toolCalls: ToolCall[];
+  finishReason?: string;
+  usage?: CompletionUsage;
+  metrics?: CompletionMetrics;
+  affinityKey?: string;
+  apiKeyId?: number;
+  attempts: number;
+  triedPeerKeys: Set<string>;
+  firstChunkAt?: number;
+  streamTimeout?: NodeJS.Timeout;
+}
+
+export class InferenceRegistry {
+  private _abandoned: Map<string, PendingInference> = new Map();
+  private _inferences: Map<string, PendingInference> = new Map();
+  private _taggedPeers: Set<string> = new Set();
+
+  add(inference: PendingInference) {
+    this._inferences.set(inference.id, inference);
+  }
+
+  get(requestId: string): PendingInference | undefined {
+    return this._inferences.get(requestId);
+  }
+
+  delete(requestId: string): boolean {
+    return this._inferences.delete(requestId);
+  }
+
+  getForPeer(peerKey: string): PendingInference[] {
+    return [...this._inferences.values()].filter(
+      (inference) => inference.peerKey === peerKey
+    );
+  }
+
+  /**
+   * Resolves the inference a provider message belongs to. Providers that echo
+   * the request id are routed exactly; untagged output falls back to the
+   * peer's oldest in-flight request, unless the peer is still producing an
+   * abandoned one, whose output is dropped.
+   */
+  find(peerKey: string, requestId?: string): PendingInference | undefined {
+    if (requestId) {
+      const inference = this._inferences.get(requestId);
+      return inference?.peerKey === peerKey ? inference : undefined;
+    }
+    if (this.getAbandoned(peerKey).length) return undefined;
+    return this.getForPeer(peerKey)[0];
+  }
+
+  /**
+   * Keeps the slot of an inference the server gave up on while the provider
+   * may still be generating it. Untagged providers ignore `inferenceCancel`,
+   * so the slot is held until they end the request or disconnect.
+   */
+  abandon(inference: PendingInference) {
+    const { id, peerKey } = inference;
+    if (!peerKey || this.isTagged(peerKey)) return;
+    // A copy, as a retried inference moves on to another provider.
+    this._abandoned.set(`${peerKey}:${id}`, { ...inference });
+  }
+
+  /**
+   * Frees the slot of an abandoned inference once the provider has ended it.
+   * Without a request id the peer's oldest abandoned inference is released.
+   */
+  release(peerKey: string, requestId?: string): PendingInference | undefined {
+    const inference = requestId
+      ? this._abandoned.get(`${peerKey}:${requestId}`)
+      : this.getAbandoned(peerKey)[0];
+    if (!inference) return undefined;
+    this._abandoned.delete(`${peerKey}:${inference.id}`);
+    return inference;
+  }
+
+  all(): PendingInference[] {
+    return [...this._inferences.values()];
+  }
+
+  countForModel(modelName: string): number {
+    return [...this._inferences.values()].filter(
+      (inference) => inference.sessionRequest.modelName === modelName
+    ).length;
+  }
+
+  countForPeer(peerKey: string, modelName?: string): number {
+    return [...this.getForPeer(peerKey), ...this.getAbandoned(peerKey)].filter(
+      (inference) =>
+        !modelName || inference.sessionRequest.modelName === modelName
+    ).length;
+  }
+
+  /**
+   * Records that the provider tags its output with request ids, so its
+   * concurrent completions can be told apart.
+   */
+  markTagged(peerKey: string) {
+    this._taggedPeers.add(peerKey);
+  }
+
+  isTagged(peerKey: string): boolean {
+    return this._taggedPeers.has(peerKey);
+  }
+
+  forgetPeer(peerKey: string) {
+    this._taggedPeers.delete(peerKey);
+    for (const inference of this.getAbandoned(peerKey)) {
+      this._abandoned.delete(`${peerKey}:${inference.id}`);
+    }
+  }
+
+  private getAbandoned(peerKey: string): PendingInference[] {
+    return [...this._abandoned.values()].filter(
+      (inference) => inference.peerKey === peerKey
+    );
+  }
+
+  get size() {
+    return this._inferences.size;
+  }
+}
@@ -0,0 +1,61 @@
+import crypto from "hypercore-crypto";
+
+import { JoinRejectionReason, PeerUpsert } from "./types";
+
+// JSON with object keys sorted at every level, so both sides sign the same
+// bytes whatever order the fields were written in.
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, field]) => field !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, field]) => `${JSON.stringify(key)}:${canonicalJson(field)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+};
+
+/**
+ * The bytes a provider signs for its join: every field of the message except
+ * `signature`, as canonical JSON.
+ */
+export const getJoinSigningPayload = (message: PeerUpsert) =>
+  Buffer.from(canonicalJson({ ...message, signature: undefined }));
+
+const isValidSignature = (message: PeerUpsert, publicKey: Buffer) => {
+  const signature = Buffer.from(message.signature ?? "", "hex");
+  if (signature.length !== 64) return false;
+  try {
+    return crypto.verify(getJoinSigningPayload(message), signature, publicKey);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Checks that a join was sent for this server by the peer it describes.
+ * Signed joins are always verified, unsigned ones are refused when
+ * `requireSignature` is set. Returns why the join is rejected, if it is.
+ */
+export const verifyJoin = (
+  message: PeerUpsert,
+  publicKey: Buffer,
+  serverKey: string,
+  requireSignature: boolean
+): JoinRejectionReason | undefined => {
+  if (message.signature === undefined) {
+    if (requireSignature) return "unsigned";
+  } else if (!isValidSignature(message, publicKey)) {
+    return "invalid_signature";
+  }
+
+  if (message.serverKey?.toLowerCase() !== serverKey.toLowerCase()) {
+    return "server_key_mismatch";
+  }
+
+  const discoveryKey = crypto.discoveryKey(publicKey).toString("hex");
+  if (message.discoveryKey?.toLowerCase() !== discoveryKey) {
+    return "discovery_key_mismatch";
+  }
+};
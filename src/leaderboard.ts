@@ -0,0 +1,37 @@
+import { DEFAULT_LEADERBOARD_LIMIT, LEADERBOARD_PERIODS } from "./constants";
+import { LeaderboardPeriod } from "./types";
+
+const MAX_LEADERBOARD_LIMIT = 100;
+
+export interface LeaderboardParams {
+  period?: string;
+  limit?: string;
+}
+
+export interface LeaderboardQuery {
+  period: LeaderboardPeriod;
+  days: number | null;
+  limit: number;
+}
+
+/**
+ * Reads the period and limit shared by `GET /v1/leaderboard` and the
+ * `leaderboard` command. Returns an error message when a value is invalid.
+ */
+export const parseLeaderboardQuery = (
+  params: LeaderboardParams
+): LeaderboardQuery | string => {
+  const period = (params.period ?? "week") as LeaderboardPeriod;
+  const limit = params.limit ? Number(params.limit) : DEFAULT_LEADERBOARD_LIMIT;
+
+  const periods = Object.keys(LEADERBOARD_PERIODS);
+  if (!periods.includes(period)) {
+    return `Invalid period: ${period}, expected one of ${periods.join(", ")}`;
+  }
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LEADERBOARD_LIMIT) {
+    return `Invalid limit: ${params.limit}, expected 1 to ${MAX_LEADERBOARD_LIMIT}`;
+  }
+
+  return { period, days: LEADERBOARD_PERIODS[period], limit };
+};
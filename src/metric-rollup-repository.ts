@@ -0,0 +1,160 @@
+import { BaseRepository } from "./base-repository";
+import { database } from "./database";
+import { MetricRollup, RollupBucket, TimeSeriesQuery } from "./types";
+
+export interface RollupMetricRow {
+  peer_key: string;
+  model_name: string | null;
+  recorded_at: number;
+  total_tokens: number | null;
+  average_tokens_per_second: number | null;
+}
+
+export interface RollupSessionRow {
+  peer_key: string;
+  model_names: string[];
+  start_time: string;
+  end_time: string | null;
+}
+
+export class MetricRollupRepository extends BaseRepository {
+  constructor() {
+    super(database);
+  }
+
+  async getLatestBucketStart(bucket: RollupBucket): Promise<string | null> {
+    const row = await this.getQuery<{ bucket_start: string | null }>(
+      "SELECT MAX(bucket_start) as bucket_start FROM metric_rollups WHERE bucket = ?",
+      [bucket]
+    );
+    return row.bucket_start;
+  }
+
+  /**
+   * Time of the oldest metric or session, in epoch milliseconds, or null when
+   * there is nothing to roll up.
+   */
+  async getEarliestActivity(): Promise<number | null> {
+    const row = await this.getQuery<{ earliest: number | null }>(
+      `SELECT MIN(earliest) as earliest FROM (
+        SELECT MIN(recorded_at) as earliest FROM metrics
+        UNION ALL
+        SELECT CAST(strftime('%s', MIN(start_time)) AS INTEGER) * 1000 FROM provider_sessions
+      )`
+    );
+    return row.earliest;
+  }
+
+  /**
+   * Metrics recorded between `from` and `to` (epoch milliseconds), with the
+   * model of the request they belong to, or the provider's model for
+   * completions that did not come through the HTTP API.
+   */
+  async getMetrics(from: number, to: number): Promise<RollupMetricRow[]> {
+    return this.allQuery<RollupMetricRow>(
+      `SELECT
+        ps.peer_key,
+        COALESCE(r.model_name, p.model_name) as model_name,
+        m.recorded_at,
+        m.total_tokens,
+        m.average_tokens_per_second
+      FROM metrics m
+      JOIN provider_sessions ps ON ps.id = m.provider_session_id
+      LEFT JOIN requests r ON r.id = m.request_id
+      LEFT JOIN peers p ON p.key = ps.peer_key
+      WHERE m.recorded_at >= ? AND m.recorded_at < ?`,
+      [from, to]
+    );
+  }
+
+  /**
+   * Sessions overlapping `from` to `to`, with the models their provider
+   * currently serves.
+   */
+  async getSessions(from: number, to: number): Promise<RollupSessionRow[]> {
+    const rows = await this.allQuery<
+      Omit<RollupSessionRow, "model_names"> & { model_names: string }
+    >(
+      `SELECT
+        ps.peer_key,
+        (SELECT json_group_array(model_name) FROM peer_models
+         WHERE peer_key = ps.peer_key) as model_names,
+        ps.start_time,
+        ps.end_time
+      FROM provider_sessions ps
+      WHERE ps.start_time < datetime(? / 1000, 'unixepoch')
+        AND (ps.end_time IS NULL OR ps.end_time > datetime(? / 1000, 'unixepoch'))`,
+      [to, from]
+    );
+    return rows.map((row) => ({
+      ...row,
+      model_names: JSON.parse(row.model_names),
+    }));
+  }
+
+  /**
+   * Replaces every rollup of `bucket` starting between `from` and `to` (ISO
+   * timestamps) with `rollups`, in one transaction so readers never see a
+   * partly rebuilt range.
+   */
+  async replace(
+    bucket: RollupBucket,
+    from: string,
+    to: string,
+    rollups: MetricRollup[]
+  ): Promise<void> {
+    const statements: [string, unknown[]][] = [
+      [
+        "DELETE FROM metric_rollups WHERE bucket = ? AND bucket_start >= ? AND bucket_start < ?",
+        [bucket, from, to],
+      ],
+    ];
+
+    for (const rollup of rollups) {
+      statements.push([
+        `INSERT INTO metric_rollups (
+            bucket,
+            bucket_start,
+            dimension,
+            dimension_value,
+            requests,
+            tokens,
+            average_tokens_per_second,
+            p95_tokens_per_second,
+            uptime_minutes
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          rollup.bucket,
+          rollup.bucket_start,
+          rollup.dimension,
+          rollup.dimension_value,
+          rollup.requests,
+          rollup.tokens,
+          rollup.average_tokens_per_second,
+          rollup.p95_tokens_per_second,
+          rollup.uptime_minutes,
+        ],
+      ]);
+    }
+
+    await this.runTransaction(statements);
+  }
+
+  async getSeries(query: TimeSeriesQuery): Promise<MetricRollup[]> {
+    return this.allQuery<MetricRollup>(
+      `SELECT * FROM metric_rollups
+      WHERE bucket = ? AND dimension = ?
+        AND bucket_start >= ? AND bucket_start < ?
+        AND (? IS NULL OR dimension_value = ?)
+      ORDER BY bucket_start, dimension_value`,
+      [
+        query.bucket,
+        query.dimension,
+        query.from,
+        query.to,
+        query.value ?? null,
+        query.value ?? null,
+      ]
+    );
+  }
+}
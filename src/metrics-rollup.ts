@@ -0,0 +1,180 @@
+import { METRICS_ROLLUP_INTERVAL_MS, ROLLUP_BUCKETS } from "./constants";
+import { logger } from "./logger";
+import {
+  MetricRollupRepository,
+  RollupMetricRow,
+  RollupSessionRow,
+} from "./metric-rollup-repository";
+import { MetricRollup, RollupBucket, RollupDimension } from "./types";
+
+const DAY_MS = ROLLUP_BUCKETS.day;
+const MINUTE_MS = 60 * 1000;
+
+interface RollupTotals {
+  requests: number;
+  tokens: number;
+  speeds: number[];
+  uptimeMs: number;
+}
+
+const floorTo = (time: number, bucketMs: number) =>
+  Math.floor(time / bucketMs) * bucketMs;
+
+// Session times are stored by SQLite as UTC without a zone.
+const parseSqliteTime = (value: string) =>
+  Date.parse(`${value.replace(" ", "T")}Z`);
+
+const percentile = (values: number[], p: number) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.max(0, Math.ceil(p * sorted.length) - 1)];
+};
+
+/**
+ * Aggregates raw completion metrics and provider sessions into hourly and
+ * daily rollups per provider and per model. Each run recomputes the buckets
+ * of the day holding the latest rollup onwards, so the current hour and day
+ * stay up to date while older buckets are left alone.
+ */
+export class MetricsRollup {
+  private _interval: NodeJS.Timeout | null = null;
+  private _repository: MetricRollupRepository;
+  private _running = false;
+
+  constructor(repository: MetricRollupRepository) {
+    this._repository = repository;
+  }
+
+  start() {
+    if (this._interval) return;
+    this.run();
+    this._interval = setInterval(() => this.run(), METRICS_ROLLUP_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this._interval) clearInterval(this._interval);
+    this._interval = null;
+  }
+
+  async run() {
+    if (this._running) return;
+    this._running = true;
+
+    try {
+      const now = Date.now();
+      const latest = await this._repository.getLatestBucketStart("hour");
+      const from = latest
+        ? Date.parse(latest)
+        : await this._repository.getEarliestActivity();
+
+      for (let day = floorTo(from ?? now, DAY_MS); day <= now; day += DAY_MS) {
+        await this.rollupDay(day, now);
+      }
+    } catch (error) {
+      logger.error("🚨 Failed to roll up metrics:", error);
+    } finally {
+      this._running = false;
+    }
+  }
+
+  private async rollupDay(day: number, now: number) {
+    const end = Math.min(day + DAY_MS, now);
+    const metrics = await this._repository.getMetrics(day, end);
+    const sessions = await this._repository.getSessions(day, end);
+
+    for (const bucket of Object.keys(ROLLUP_BUCKETS) as RollupBucket[]) {
+      const rollups = this.aggregate(bucket, metrics, sessions, day, end);
+      await this._repository.replace(
+        bucket,
+        new Date(day).toISOString(),
+        new Date(day + DAY_MS).toISOString(),
+        rollups
+      );
+    }
+  }
+
+  private aggregate(
+    bucket: RollupBucket,
+    metrics: RollupMetricRow[],
+    sessions: RollupSessionRow[],
+    from: number,
+    to: number
+  ): MetricRollup[] {
+    const bucketMs = ROLLUP_BUCKETS[bucket];
+    const totals = new Map<string, RollupTotals>();
+
+    const getTotals = (
+      start: number,
+      dimension: RollupDimension,
+      value: string
+    ) => {
+      const key = JSON.stringify([start, dimension, value]);
+      let entry = totals.get(key);
+      if (!entry) {
+        entry = { requests: 0, tokens: 0, speeds: [], uptimeMs: 0 };
+        totals.set(key, entry);
+      }
+      return entry;
+    };
+
+    const dimensionsOf = (peerKey: string, modelNames: (string | null)[]) =>
+      [
+        ["provider", peerKey],
+        ...modelNames.map((modelName) => ["model", modelName]),
+      ].filter((pair): pair is [RollupDimension, string] => !!pair[1]);
+
+    for (const metric of metrics) {
+      const start = floorTo(metric.recorded_at, bucketMs);
+      const dimensions = dimensionsOf(metric.peer_key, [metric.model_name]);
+      for (const [dimension, value] of dimensions) {
+        const entry = getTotals(start, dimension, value);
+        entry.requests += 1;
+        entry.tokens += metric.total_tokens || 0;
+        if (metric.average_tokens_per_second !== null) {
+          entry.speeds.push(metric.average_tokens_per_second);
+        }
+      }
+    }
+
+    for (const session of sessions) {
+      const sessionStart = Math.max(parseSqliteTime(session.start_time), from);
+      const sessionEnd = Math.min(
+        session.end_time ? parseSqliteTime(session.end_time) : to,
+        to
+      );
+
+      for (
+        let start = floorTo(sessionStart, bucketMs);
+        start < sessionEnd;
+        start += bucketMs
+      ) {
+        const overlap =
+          Math.min(sessionEnd, start + bucketMs) -
+          Math.max(sessionStart, start);
+        if (overlap <= 0) continue;
+        const dimensions = dimensionsOf(session.peer_key, session.model_names);
+        for (const [dimension, value] of dimensions) {
+          getTotals(start, dimension, value).uptimeMs += overlap;
+        }
+      }
+    }
+
+    return [...totals].map(([key, entry]) => {
+      const [start, dimension, value] = JSON.parse(key);
+      return {
+        bucket,
+        bucket_start: new Date(start).toISOString(),
+        dimension,
+        dimension_value: value,
+        requests: entry.requests,
+        tokens: entry.tokens,
+        average_tokens_per_second: entry.speeds.length
+          ? entry.speeds.reduce((a, b) => a + b, 0) / entry.speeds.length
+          : null,
+        p95_tokens_per_second: entry.speeds.length
+          ? percentile(entry.speeds, 0.95)
+          : null,
+        uptime_minutes: Math.round((entry.uptimeMs / MINUTE_MS) * 100) / 100,
+      };
+    });
+  }
+}
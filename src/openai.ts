@@ -0,0 +1,194 @@
+import { InferenceRequest } from "symmetry-core";
+
+import { PendingInference } from "./inference-registry";
+import { ResponseFormat, toSSE } from "./response-format";
+import { PeerSessionRequest, ToolCall, ToolCallDelta } from "./types";
+
+export const COMPLETION_PARAMETERS = [
+  "frequency_penalty",
+  "logit_bias",
+  "logprobs",
+  "max_completion_tokens",
+  "max_tokens",
+  "parallel_tool_calls",
+  "presence_penalty",
+  "response_format",
+  "seed",
+  "stop",
+  "temperature",
+  "tool_choice",
+  "tools",
+  "top_logprobs",
+  "top_p",
+  "user",
+] as const;
+
+export type CompletionParameter = (typeof COMPLETION_PARAMETERS)[number];
+
+export type CompletionParameters = Partial<
+  Record<CompletionParameter, unknown>
+>;
+
+export interface ChatCompletionBody extends CompletionParameters {
+  model?: string;
+  messages?: InferenceRequest["messages"];
+  stream?: boolean;
+  /** @deprecated Legacy shape, use `model`. */
+  sessionRequest?: PeerSessionRequest;
+  /** @deprecated Legacy shape, use `messages`. */
+  data?: { messages?: InferenceRequest["messages"] };
+}
+
+export interface CompletionRequest {
+  sessionRequest: PeerSessionRequest;
+  messages: InferenceRequest["messages"];
+  parameters: CompletionParameters;
+  stream: boolean;
+}
+
+const OPENAI_ERROR_TYPES: Record<string, string> = {
+  insufficient_quota: "insufficient_quota",
+  invalid_api_key: "invalid_request_error",
+  model_not_allowed: "invalid_request_error",
+  rate_limit_exceeded: "requests",
+};
+
+export const createOpenAIError = (
+  message: string,
+  type = "invalid_request_error",
+  code: string | null = null
+) => ({
+  error: { message, type, param: null, code },
+});
+
+/**
+ * Reads an OpenAI chat completion body, falling back to the legacy
+ * `sessionRequest` / `data.messages` shape. As with the OpenAI API, responses
+ * are only streamed with `stream: true`, except for the legacy shape, which
+ * streams unless `stream` is false. Returns an error message when the body is
+ * unusable.
+ */
+export const parseCompletionRequest = (
+  body: ChatCompletionBody | undefined
+): CompletionRequest | string => {
+  const modelName = body?.model ?? body?.sessionRequest?.modelName;
+  const messages = body?.messages ?? body?.data?.messages;
+
+  if (typeof modelName !== "string" || !modelName) {
+    return "You must provide a model parameter";
+  }
+
+  if (!Array.isArray(messages) || !messages.length) {
+    return "You must provide a non-empty messages array";
+  }
+
+  const legacy = body?.model === undefined && body?.messages === undefined;
+
+  const parameters: CompletionParameters = {};
+  for (const parameter of COMPLETION_PARAMETERS) {
+    if (body?.[parameter] !== undefined) {
+      parameters[parameter] = body[parameter];
+    }
+  }
+
+  return {
+    sessionRequest: { ...body?.sessionRequest, modelName },
+    messages,
+    parameters,
+    stream: legacy ? body?.stream !== false : body?.stream === true,
+  };
+};
+
+export const createUsage = (inference: PendingInference) => {
+  const promptTokens = inference.usage?.prompt_tokens ?? 0;
+  const completionTokens =
+    inference.usage?.completion_tokens ??
+    inference.metrics?.state.totalTokens ??
+    0;
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens,
+  };
+};
+
+export const mergeToolCalls = (
+  toolCalls: ToolCall[],
+  deltas: ToolCallDelta[]
+) => {
+  for (const delta of deltas) {
+    const index = delta.index ?? toolCalls.length;
+    if (!toolCalls[index]) {
+      toolCalls[index] = {
+        id: "",
+        type: "function",
+        function: { name: "", arguments: "" },
+      };
+    }
+    const toolCall = toolCalls[index];
+    if (delta.id) toolCall.id = delta.id;
+    toolCall.function.name += delta.function?.name ?? "";
+    toolCall.function.arguments += delta.function?.arguments ?? "";
+  }
+};
+
+const getErrorType = (code?: string) =>
+  (code && OPENAI_ERROR_TYPES[code]) || "server_error";
+
+export const getFinishReason = (inference: PendingInference) =>
+  inference.toolCalls.length ? "tool_calls" : inference.finishReason ?? "stop";
+
+const createChunk = (
+  inference: PendingInference,
+  delta: Record<string, unknown>,
+  finishReason: string | null = null
+) => ({
+  id: `chatcmpl-${inference.id}`,
+  object: "chat.completion.chunk",
+  created: Math.floor(inference.startedAt / 1000),
+  model: inference.sessionRequest.modelName,
+  choices: [{ index: 0, delta, logprobs: null, finish_reason: finishReason }],
+});
+
+export const createChatCompletion = (inference: PendingInference) => ({
+  id: `chatcmpl-${inference.id}`,
+  object: "chat.completion",
+  created: Math.floor(inference.startedAt / 1000),
+  model: inference.sessionRequest.modelName,
+  choices: [
+    {
+      index: 0,
+      message: {
+        role: "assistant",
+        content: inference.content,
+        ...(inference.toolCalls.length && { tool_calls: inference.toolCalls }),
+      },
+      logprobs: null,
+      finish_reason: getFinishReason(inference),
+    },
+  ],
+  usage: createUsage(inference),
+});
+
+export const openAIFormat: ResponseFormat = {
+  streamStart: (inference) =>
+    toSSE(createChunk(inference, { role: "assistant", content: "" })),
+  streamDelta: (inference, delta) => {
+    if (!delta.content && !delta.tool_calls?.length) return "";
+    return toSSE(
+      createChunk(inference, {
+        ...(delta.content && { content: delta.content }),
+        ...(delta.tool_calls?.length && { tool_calls: delta.tool_calls }),
+      })
+    );
+  },
+  streamEnd: (inference) =>
+    toSSE(createChunk(inference, {}, getFinishReason(inference))) +
+    toSSE("[DONE]"),
+  streamError: (_inference, message, code) =>
+    toSSE(createOpenAIError(message, getErrorType(code), code)) +
+    toSSE("[DONE]"),
+  completion: createChatCompletion,
+  error: (message, code) =>
+    createOpenAIError(message, getErrorType(code), code),
+};
@@ -0,0 +1,84 @@
+import { BaseRepository } from "./base-repository";
+import { database } from "./database";
+import {
+  JoinRejectionReason,
+  JoinRejectionRow,
+  PeerAccessEntry,
+  PeerAccessListType,
+  PeerAccessTarget,
+} from "./types";
+
+const ACTIVE_ENTRY = "(expires_at IS NULL OR expires_at > datetime('now'))";
+
+export class PeerAccessRepository extends BaseRepository {
+  constructor() {
+    super(database);
+  }
+
+  /**
+   * Adds the value to the list, replacing the reason and expiry of an
+   * existing entry for it.
+   */
+  async add(entry: {
+    list: PeerAccessListType;
+    target: PeerAccessTarget;
+    value: string;
+    reason?: string;
+    expiresAt?: string;
+  }): Promise<void> {
+    await this.runQuery(
+      `INSERT INTO peer_access (list, target, value, reason, expires_at)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(list, value) DO UPDATE SET
+         reason = excluded.reason,
+         expires_at = excluded.expires_at,
+         created_at = CURRENT_TIMESTAMP`,
+      [
+        entry.list,
+        entry.target,
+        entry.value,
+        entry.reason ?? null,
+        entry.expiresAt ?? null,
+      ]
+    );
+  }
+
+  async remove(list: PeerAccessListType, value: string): Promise<boolean> {
+    const changes = await this.runQuery(
+      "DELETE FROM peer_access WHERE list = ? AND value = ?",
+      [list, value]
+    );
+    return changes > 0;
+  }
+
+  async recordJoinRejection(
+    peerKey: string,
+    remoteHost: string | undefined,
+    reason: JoinRejectionReason
+  ): Promise<void> {
+    await this.runQuery(
+      `INSERT INTO join_rejections (peer_key, remote_host, reason) VALUES (?, ?, ?)
+       ON CONFLICT(peer_key, reason) DO UPDATE SET
+         count = count + 1,
+         remote_host = excluded.remote_host,
+         last_rejected_at = CURRENT_TIMESTAMP`,
+      [peerKey, remoteHost ?? null, reason]
+    );
+  }
+
+  /**
+   * Rejected joins per peer and reason, most recent first.
+   */
+  async getJoinRejections(limit: number): Promise<JoinRejectionRow[]> {
+    return this.allQuery<JoinRejectionRow>(
+      "SELECT * FROM join_rejections ORDER BY last_rejected_at DESC LIMIT ?",
+      [limit]
+    );
+  }
+
+  async getActive(): Promise<PeerAccessEntry[]> {
+    return this.allQuery<PeerAccessEntry>(
+      `SELECT * FROM peer_access WHERE ${ACTIVE_ENTRY} ORDER BY list, created_at`
+    );
+  }
+}
@@ -0,0 +1,174 @@
+import net from "node:net";
+
+import {
+  PEER_ACCESS_EXPIRY_UNITS,
+  PEER_ACCESS_REFRESH_INTERVAL_MS,
+} from "./constants";
+import { logger } from "./logger";
+import { PeerAccessRepository } from "./peer-access-repository";
+import { PeerAccessEntry, PeerAccessTarget } from "./types";
+
+const PEER_KEY_PATTERN = /^[0-9a-f]{64}$/i;
+
+export interface PeerAccessParams {
+  value: string;
+  reason?: string;
+  expires?: string;
+}
+
+export interface PeerAccessInput {
+  target: PeerAccessTarget;
+  value: string;
+  reason?: string;
+  expiresAt?: string;
+}
+
+// SQLite compares datetimes as `YYYY-MM-DD HH:MM:SS` text in UTC.
+const toSqliteTime = (time: number) =>
+  new Date(time).toISOString().slice(0, 19).replace("T", " ");
+
+const parseSqliteTime = (value: string) =>
+  Date.parse(`${value.replace(" ", "T")}Z`);
+
+export const describeAccessEntry = (entry: PeerAccessEntry) =>
+  entry.reason ? `${entry.value} (${entry.reason})` : entry.value;
+
+/**
+ * Reads a peer key or IP address, returning an error message when it is
+ * neither.
+ */
+export const parsePeerAccessValue = (
+  value: string
+): { target: PeerAccessTarget; value: string } | string => {
+  if (PEER_KEY_PATTERN.test(value)) {
+    return { target: "key", value: value.toLowerCase() };
+  }
+  if (net.isIP(value)) return { target: "host", value };
+  return `Invalid peer: ${value}, expected a hex peer key or an IP address`;
+};
+
+/**
+ * Reads the entry added by the `ban` and `allow` commands. `expires` is a
+ * duration such as `30m`, `12h` or `7d`, or a date. Returns an error message
+ * when a value is invalid.
+ */
+export const parsePeerAccessInput = (
+  params: PeerAccessParams
+): PeerAccessInput | string => {
+  const peer = parsePeerAccessValue(params.value);
+  if (typeof peer === "string") return peer;
+
+  if (params.expires === undefined) return { ...peer, reason: params.reason };
+
+  const duration = params.expires.match(/^(\d+)([a-z])$/);
+  const unit = duration && PEER_ACCESS_EXPIRY_UNITS[duration[2]];
+  const expiresAt = unit
+    ? Date.now() + Number(duration[1]) * unit
+    : Date.parse(params.expires);
+
+  if (Number.isNaN(expiresAt) || expiresAt <= Date.now()) {
+    return `Invalid expiry: ${params.expires}, expected a duration such as 7d or a future date`;
+  }
+
+  return { ...peer, reason: params.reason, expiresAt: toSqliteTime(expiresAt) };
+};
+
+/**
+ * In-memory copy of the active ban and allow lists, so they can be checked by
+ * the swarm firewall, which cannot wait on the database. It is reloaded on an
+ * interval to pick up changes made with the CLI.
+ */
+export class PeerAccessList {
+  private _allowed: Map<string, PeerAccessEntry> = new Map();
+  private _banned: Map<string, PeerAccessEntry> = new Map();
+  private _interval: NodeJS.Timeout | null = null;
+  private _onRefresh: () => void;
+  private _repository: PeerAccessRepository;
+
+  constructor(repository: PeerAccessRepository, onRefresh: () => void) {
+    this._repository = repository;
+    this._onRefresh = onRefresh;
+  }
+
+  async start() {
+    if (this._interval) return;
+    await this.refresh();
+    this._interval = setInterval(
+      () => this.refresh(),
+      PEER_ACCESS_REFRESH_INTERVAL_MS
+    );
+  }
+
+  stop() {
+    if (this._interval) clearInterval(this._interval);
+    this._interval = null;
+  }
+
+  async refresh() {
+    try {
+      const entries = await this._repository.getActive();
+      this._allowed = new Map();
+      this._banned = new Map();
+      for (const entry of entries) {
+        const list = entry.list === "ban" ? this._banned : this._allowed;
+        list.set(entry.value, entry);
+      }
+      this._onRefresh();
+    } catch (error) {
+      logger.error(`🚨 Error loading peer access lists: ${error}`);
+    }
+  }
+
+  /**
+   * Returns the ban that applies to the peer key or host, if any.
+   */
+  getBan(peerKey: string, remoteHost?: string) {
+    return this.find(this._banned, peerKey, remoteHost);
+  }
+
+  /**
+   * Whether the peer may join as a provider. Everyone may while the allowlist
+   * is empty.
+   */
+  isAllowed(peerKey: string, remoteHost?: string) {
+    const hasAllowlist = [...this._allowed.keys()].some((value) =>
+      this.getEntry(this._allowed, value)
+    );
+    return !hasAllowlist || !!this.find(this._allowed, peerKey, remoteHost);
+  }
+
+  /**
+   * Whether the peer key may connect at all, for the swarm firewall, which
+   * does not see the host. Only an allowlist made up entirely of keys can
+   * refuse a key there, as any host entry might still let the peer in.
+   */
+  isKeyAllowed(peerKey: string) {
+    const values = [...this._allowed.keys()].filter((value) =>
+      this.getEntry(this._allowed, value)
+    );
+    const hasHostEntry = values.some(
+      (value) => this._allowed.get(value)?.target === "host"
+    );
+    return (
+      !values.length || hasHostEntry || !!this.getEntry(this._allowed, peerKey)
+    );
+  }
+
+  private find(
+    list: Map<string, PeerAccessEntry>,
+    peerKey: string,
+    remoteHost?: string
+  ) {
+    return (
+      this.getEntry(list, peerKey) ??
+      (remoteHost ? this.getEntry(list, remoteHost) : undefined)
+    );
+  }
+
+  // Entries expire between refreshes, so the expiry is checked on every read.
+  private getEntry(list: Map<string, PeerAccessEntry>, value: string) {
+    const entry = list.get(value);
+    if (!entry?.expires_at) return entry;
+    return parseSqliteTime(entry.expires_at) > Date.now() ? entry : undefined;
+  }
+}
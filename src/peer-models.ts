@@ -0,0 +1,37 @@
+import { MAX_PEER_MODELS } from "./constants";
+import { PeerModel, PeerUpsert } from "./types";
+
+/**
+ * Reads the models a provider advertises in its join, falling back to the
+ * legacy single `modelName`. Returns an error message when the list is
+ * unusable.
+ */
+export const parsePeerModels = (message: PeerUpsert): PeerModel[] | string => {
+  const models =
+    message.models ?? (message.modelName ? [{ name: message.modelName }] : []);
+
+  if (!Array.isArray(models) || models.length > MAX_PEER_MODELS) {
+    return `Expected models to be a list of at most ${MAX_PEER_MODELS} models`;
+  }
+
+  const names = new Set<string>();
+
+  for (const model of models) {
+    if (typeof model?.name !== "string" || !model.name) {
+      return "Every model must have a name";
+    }
+
+    if (names.has(model.name)) return `Duplicate model: ${model.name}`;
+    names.add(model.name);
+
+    const { maxConnections } = model;
+    if (
+      maxConnections !== undefined &&
+      (!Number.isInteger(maxConnections) || maxConnections < 1)
+    ) {
+      return `Invalid maxConnections for ${model.name}: ${maxConnections}`;
+    }
+  }
+
+  return models.map(({ name, maxConnections }) => ({ name, maxConnections }));
+};
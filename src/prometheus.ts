@@ -0,0 +1,216 @@
+type Labels = Record<string, string>;
+
+const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+const escapeLabel = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+
+const formatLabels = (labels: Labels) => {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabel(value)}"`
+  );
+  return pairs.length ? `{${pairs.join(",")}}` : "";
+};
+
+const formatValue = (value: number) =>
+  Number.isFinite(value) ? String(value) : value > 0 ? "+Inf" : "-Inf";
+
+abstract class Metric<T> {
+  protected _series: Map<string, { labels: Labels; value: T }> = new Map();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: "counter" | "gauge" | "histogram"
+  ) {}
+
+  protected getSeries(labels: Labels, create: () => T) {
+    const key = JSON.stringify(labels);
+    let series = this._series.get(key);
+    if (!series) {
+      series = { labels, value: create() };
+      this._series.set(key, series);
+    }
+    return series;
+  }
+
+  render() {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...[...this._series.values()].flatMap(({ labels, value }) =>
+        this.renderSeries(labels, value)
+      ),
+    ].join("\n");
+  }
+
+  protected abstract renderSeries(labels: Labels, value: T): string[];
+}
+
+export class Counter extends Metric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, "counter");
+  }
+
+  inc(labels: Labels = {}, value = 1) {
+    this.getSeries(labels, () => 0).value += value;
+  }
+
+  protected renderSeries(labels: Labels, value: number) {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(value)}`];
+  }
+}
+
+export class Gauge extends Metric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, "gauge");
+  }
+
+  set(labels: Labels, value: number) {
+    this.getSeries(labels, () => 0).value = value;
+  }
+
+  protected renderSeries(labels: Labels, value: number) {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(value)}`];
+  }
+}
+
+interface HistogramValue {
+  counts: number[];
+  count: number;
+  sum: number;
+}
+
+export class Histogram extends Metric<HistogramValue> {
+  private _buckets: number[];
+
+  constructor(name: string, help: string, buckets = DEFAULT_BUCKETS) {
+    super(name, help, "histogram");
+    this._buckets = buckets;
+  }
+
+  observe(labels: Labels, value: number) {
+    const series = this.getSeries(labels, () => ({
+      counts: this._buckets.map(() => 0),
+      count: 0,
+      sum: 0,
+    })).value;
+
+    this._buckets.forEach((bound, i) => {
+      if (value <= bound) series.counts[i]++;
+    });
+    series.count++;
+    series.sum += value;
+  }
+
+  protected renderSeries(labels: Labels, value: HistogramValue) {
+    return [
+      ...this._buckets.map(
+        (bound, i) =>
+          `${this.name}_bucket${formatLabels({
+            ...labels,
+            le: String(bound),
+          })} ${value.counts[i]}`
+      ),
+      `${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${
+        value.count
+      }`,
+      `${this.name}_sum${formatLabels(labels)} ${formatValue(value.sum)}`,
+      `${this.name}_count${formatLabels(labels)} ${value.count}`,
+    ];
+  }
+}
+
+/**
+ * Process-wide metrics in the Prometheus text exposition format, served on
+ * `/metrics`. Gauges describing current state are set when scraped.
+ */
+export class MetricsRegistry {
+  private _metrics: Metric<unknown>[] = [];
+
+  counter(name: string, help: string) {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string) {
+    return this.register(new Gauge(name, help));
+  }
+
+  histogram(name: string, help: string, buckets?: number[]) {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  render() {
+    return `${this._metrics.map((metric) => metric.render()).join("\n")}\n`;
+  }
+
+  private register<T extends Metric<unknown>>(metric: T) {
+    this._metrics.push(metric);
+    return metric;
+  }
+}
+
+export const registry = new MetricsRegistry();
+
+export const serverMetrics = {
+  connectedPeers: registry.gauge(
+    "symmetry_connected_peers",
+    "Providers connected over the swarm."
+  ),
+  onlineModels: registry.gauge(
+    "symmetry_online_models",
+    "Distinct models served by online providers."
+  ),
+  inferencesInFlight: registry.gauge(
+    "symmetry_inferences_in_flight",
+    "HTTP completions currently being served."
+  ),
+  httpRequests: registry.counter(
+    "symmetry_http_requests_total",
+    "HTTP requests by method, route and status."
+  ),
+  httpRequestDuration: registry.histogram(
+    "symmetry_http_request_duration_seconds",
+    "HTTP request duration by method, route and status, including streaming.",
+    [...DEFAULT_BUCKETS, 30, 60, 120, 300]
+  ),
+  rateLimitRejections: registry.counter(
+    "symmetry_rate_limit_rejections_total",
+    "Requests and swarm messages rejected by a rate limit, by identity."
+  ),
+  joinRejections: registry.counter(
+    "symmetry_join_rejections_total",
+    "Provider joins rejected, by reason."
+  ),
+  healthCheckTimeouts: registry.counter(
+    "symmetry_health_check_timeouts_total",
+    "Health checks providers failed to answer in time."
+  ),
+  providerCompletions: registry.counter(
+    "symmetry_provider_completions_total",
+    "Completions reported by each provider."
+  ),
+  providerTokens: registry.counter(
+    "symmetry_provider_tokens_total",
+    "Tokens served by each provider."
+  ),
+  providerTokensPerSecond: registry.histogram(
+    "symmetry_provider_tokens_per_second",
+    "Average tokens per second of each provider's completions.",
+    [1, 5, 10, 20, 30, 50, 75, 100, 150, 200]
+  ),
+  sqliteQueryDuration: registry.histogram(
+    "symmetry_sqlite_query_duration_seconds",
+    "SQLite query duration by operation, including retries."
+  ),
+  sqliteQueryRetries: registry.counter(
+    "symmetry_sqlite_query_retries_total",
+    "SQLite queries retried after SQLITE_BUSY, by operation."
+  ),
+  sqliteQueryErrors: registry.counter(
+    "symmetry_sqlite_query_errors_total",
+    "SQLite queries that failed, by operation."
+  ),
+};
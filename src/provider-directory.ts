@@ -0,0 +1,122 @@
+import { DEFAULT_PROVIDER_PAGE_SIZE, PROVIDER_SORTS } from "./constants";
+import {
+  ProviderCursor,
+  ProviderQuery,
+  ProviderSort,
+  ProviderSummary,
+} from "./types";
+
+const MAX_PROVIDER_PAGE_SIZE = 100;
+
+export interface ProviderParams {
+  model?: string;
+  online?: string;
+  public?: string;
+  data_collection?: string;
+  provider?: string;
+  sort?: string;
+  order?: string;
+  limit?: string;
+  cursor?: string;
+}
+
+const SORT_VALUES: Record<ProviderSort, (provider: ProviderSummary) => number> =
+  {
+    uptime: (provider) => provider.duration_minutes,
+    tokens_per_second: (provider) => provider.avg_tokens_per_second,
+    requests: (provider) => provider.total_requests,
+  };
+
+const parseBoolean = (value?: string) =>
+  value === undefined
+    ? undefined
+    : value === "true"
+    ? true
+    : value === "false"
+    ? false
+    : null;
+
+const decodeCursor = (cursor: string): ProviderCursor | undefined => {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    if (
+      PROVIDER_SORTS.includes(decoded?.sort) &&
+      typeof decoded.value === "number" &&
+      typeof decoded.key === "string"
+    ) {
+      return decoded;
+    }
+  } catch {
+    // Fall through to the invalid cursor error.
+  }
+  return undefined;
+};
+
+/**
+ * Cursor for the page after `provider`, the last provider of a page sorted
+ * by `sort`.
+ */
+export const encodeCursor = (sort: ProviderSort, provider: ProviderSummary) =>
+  Buffer.from(
+    JSON.stringify({
+      sort,
+      value: SORT_VALUES[sort](provider),
+      key: provider.key,
+    })
+  ).toString("base64url");
+
+/**
+ * Reads the filters, sort order and page of `GET /v1/providers`. A cursor
+ * only continues the sort it was issued for. Returns an error message when a
+ * value is invalid.
+ */
+export const parseProviderQuery = (
+  params: ProviderParams
+): ProviderQuery | string => {
+  const sort = (params.sort ?? "uptime") as ProviderSort;
+  const order = params.order ?? "desc";
+  const limit = params.limit
+    ? Number(params.limit)
+    : DEFAULT_PROVIDER_PAGE_SIZE;
+
+  if (!PROVIDER_SORTS.includes(sort)) {
+    return `Invalid sort: ${sort}, expected one of ${PROVIDER_SORTS.join(
+      ", "
+    )}`;
+  }
+
+  if (order !== "asc" && order !== "desc") {
+    return `Invalid order: ${order}, expected asc or desc`;
+  }
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PROVIDER_PAGE_SIZE) {
+    return `Invalid limit: ${params.limit}, expected 1 to ${MAX_PROVIDER_PAGE_SIZE}`;
+  }
+
+  const filters = {
+    online: parseBoolean(params.online),
+    public: parseBoolean(params.public),
+    data_collection: parseBoolean(params.data_collection),
+  };
+
+  for (const [name, value] of Object.entries(filters)) {
+    if (value === null) return `Invalid ${name}: expected true or false`;
+  }
+
+  const cursor = params.cursor ? decodeCursor(params.cursor) : undefined;
+  if (params.cursor && cursor?.sort !== sort) {
+    return "Invalid cursor";
+  }
+
+  return {
+    model: params.model,
+    online: filters.online ?? undefined,
+    public: filters.public ?? undefined,
+    dataCollection: filters.data_collection ?? undefined,
+    provider: params.provider,
+    sort,
+    order,
+    limit,
+    cursor,
+  };
+};
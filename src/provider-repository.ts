@@ -1,24 +1,106 @@
 import { BaseRepository } from "./base-repository";
 import { database } from "./database";
-import { DbPeer, PeerUpsert, PeerSessionRequest } from "./types";
+import {
+  DbPeer,
+  ModelSummary,
+  PeerModel,
+  PeerUpsert,
+  ProviderCandidate,
+  ProviderDetail,
+  ProviderModel,
+  ProviderQuery,
+  ProviderSessionSummary,
+  ProviderSort,
+  ProviderSummary,
+} from "./types";
 import { logger } from "./logger";
-import { Peer } from "symmetry-core";
 
 const PREPARED_STATEMENTS = {
   UPDATE_PEER_STATUS: "UPDATE peers SET online = ? WHERE key = ?",
   GET_PEER_BY_KEY: "SELECT * FROM peers WHERE key = ?",
   GET_PEER_BY_DISCOVERY: "SELECT * FROM peers WHERE discovery_key = ?",
   DELETE_PEER: "DELETE FROM peers WHERE key = ?",
+  DELETE_PEER_MODELS: "DELETE FROM peer_models WHERE peer_key = ?",
   UPDATE_CONNECTIONS: "UPDATE peers SET connections = ? WHERE key = ?",
   GET_ACTIVE_PEER_COUNT:
     "SELECT COUNT(*) as count FROM peers WHERE online = TRUE",
-  GET_ACTIVE_MODEL_COUNT:
-    "SELECT COUNT(DISTINCT model_name) as count FROM peers WHERE online = TRUE",
+  GET_ACTIVE_MODEL_COUNT: `
+    SELECT COUNT(DISTINCT pm.model_name) as count
+    FROM peer_models pm
+    JOIN peers p ON p.key = pm.peer_key
+    WHERE p.online = TRUE`,
   GET_UNIQUE_PROVIDER_COUNT: "SELECT COUNT(DISTINCT key) as count FROM peers",
-  UPDATE_POINTS:
-    "UPDATE peers SET points = COALESCE(points, 0) + ? WHERE key = ?",
 } as const;
 
+const PROVIDER_RECENT_SESSIONS = 10;
+
+const PROVIDER_SORT_COLUMNS: Record<ProviderSort, string> = {
+  uptime: "duration_minutes",
+  tokens_per_second: "avg_tokens_per_second",
+  requests: "total_requests",
+};
+
+// Per-provider aggregates over all sessions and metrics, one row per peer.
+const PROVIDER_SUMMARY_SQL = `
+  SELECT
+    p.id,
+    p.key,
+    p.data_collection_enabled,
+    p.max_connections,
+    p.connections,
+    p.model_name,
+    (SELECT json_group_array(json_object(
+              'model_name', model_name, 'max_connections', max_connections))
+     FROM (SELECT * FROM peer_models WHERE peer_key = p.key ORDER BY model_name))
+      as models,
+    p.name,
+    p.online,
+    p.public,
+    p.provider,
+    COALESCE(ps.total_duration_minutes, 0) as duration_minutes,
+    COALESCE(ps.total_sessions, 0) as total_sessions,
+    COALESCE((SELECT COUNT(*) FROM metrics m2
+              JOIN provider_sessions ps2 ON ps2.id = m2.provider_session_id
+              WHERE ps2.peer_key = p.key), 0) as total_requests,
+    COALESCE(ps.active_sessions, 0) as active_sessions,
+    COALESCE(m.avg_tokens_per_second, 0) as avg_tokens_per_second,
+    COALESCE(m.avg_token_length, 0) as avg_token_length,
+    COALESCE(m.total_tokens, 0) as total_tokens,
+    COALESCE(m.total_bytes, 0) as total_bytes,
+    COALESCE(m.total_process_time, 0) as total_process_time
+  FROM peers p
+  LEFT JOIN (
+    SELECT
+      peer_key,
+      COUNT(*) as total_sessions,
+      SUM(duration_minutes) as total_duration_minutes,
+      SUM(CASE WHEN end_time IS NULL THEN 1 ELSE 0 END) as active_sessions
+    FROM provider_sessions
+    GROUP BY peer_key
+  ) ps ON ps.peer_key = p.key
+  LEFT JOIN (
+    SELECT
+      ps.peer_key,
+      AVG(m.average_tokens_per_second) as avg_tokens_per_second,
+      AVG(m.average_token_length) as avg_token_length,
+      SUM(m.total_tokens) as total_tokens,
+      SUM(m.total_bytes) as total_bytes,
+      SUM(m.total_process_time) as total_process_time
+    FROM metrics m
+    JOIN provider_sessions ps ON ps.id = m.provider_session_id
+    GROUP BY ps.peer_key
+  ) m ON m.peer_key = p.key
+`;
+
+type ProviderSummaryRow<T extends ProviderSummary = ProviderSummary> = Omit<
+  T,
+  "models"
+> & { models: string };
+
+const toProviderSummary = <T extends ProviderSummary>(
+  row: ProviderSummaryRow<T>
+) => ({ ...row, models: JSON.parse(row.models) } as T);
+
 export class PeerRepository extends BaseRepository {
   constructor() {
     super(database);
@@ -37,12 +119,16 @@ export class PeerRepository extends BaseRepository {
     }
   }
 
-  async upsert(message: PeerUpsert): Promise<number> {
+  /**
+   * Saves the peer and replaces the models it serves. The first model is
+   * also kept in `peers.model_name`.
+   */
+  async upsert(message: PeerUpsert, models: PeerModel[]): Promise<number> {
     const params = [
       message.key,
       message.discoveryKey,
       message.dataCollectionEnabled,
-      message.modelName,
+      models[0]?.name ?? null,
       message.public,
       message.serverKey,
       message.maxConnections,
@@ -59,8 +145,26 @@ export class PeerRepository extends BaseRepository {
       ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, TRUE)
     `;
 
+    const statements: [string, unknown[]][] = [
+      [sql, params],
+      [PREPARED_STATEMENTS.DELETE_PEER_MODELS, [message.key]],
+    ];
+
+    if (models.length) {
+      statements.push([
+        `INSERT INTO peer_models (peer_key, model_name, max_connections)
+         VALUES ${models.map(() => "(?, ?, ?)").join(", ")}`,
+        models.flatMap((model) => [
+          message.key,
+          model.name,
+          model.maxConnections ?? null,
+        ]),
+      ]);
+    }
+
     try {
-      return this.runQuery(sql, params);
+      const [changes] = await this.runTransaction(statements);
+      return changes;
     } catch (e) {
       logger.error(`Failed to upsert peer ${message.key}: ${e}`);
       throw e;
@@ -79,21 +183,47 @@ export class PeerRepository extends BaseRepository {
 
   async deletePeer(peerKey: string): Promise<number> {
     try {
-      return await this.runQuery(PREPARED_STATEMENTS.DELETE_PEER, [peerKey]);
+      const [, changes] = await this.runTransaction([
+        [PREPARED_STATEMENTS.DELETE_PEER_MODELS, [peerKey]],
+        [PREPARED_STATEMENTS.DELETE_PEER, [peerKey]],
+      ]);
+      return changes;
     } catch (error) {
       logger.error(`Error deleting peer from database: ${error}`);
       throw error;
     }
   }
 
-  async getRandom(request: PeerSessionRequest): Promise<DbPeer> {
+  async getPeerModels(peerKey: string): Promise<ProviderModel[]> {
+    return this.allQuery<ProviderModel>(
+      "SELECT model_name, max_connections FROM peer_models WHERE peer_key = ? ORDER BY model_name",
+      [peerKey]
+    );
+  }
+
+  async getCandidates(
+    modelName: string,
+    metricsSince: number
+  ): Promise<ProviderCandidate[]> {
     const sql = `
-      SELECT * FROM peers 
-      WHERE model_name = ? AND online = TRUE 
-      ORDER BY RANDOM() 
-      LIMIT 1
+      SELECT
+        p.*,
+        COALESCE(m.recent_tokens_per_second, 0) as recent_tokens_per_second,
+        pm.max_connections as model_max_connections
+      FROM peers p
+      JOIN peer_models pm ON pm.peer_key = p.key AND pm.model_name = ?
+      LEFT JOIN (
+        SELECT
+          ps.peer_key,
+          AVG(m.average_tokens_per_second) as recent_tokens_per_second
+        FROM metrics m
+        JOIN provider_sessions ps ON ps.id = m.provider_session_id
+        WHERE m.start_time >= ?
+        GROUP BY ps.peer_key
+      ) m ON m.peer_key = p.key
+      WHERE p.online = TRUE
     `;
-    return this.getQuery<DbPeer>(sql, [request.modelName]);
+    return this.allQuery<ProviderCandidate>(sql, [modelName, metricsSince]);
   }
 
   async updateConnections(
@@ -127,105 +257,149 @@ export class PeerRepository extends BaseRepository {
     return result.count;
   }
 
-  async getAllPeers(): Promise<Peer[]> {
+  async getModels(modelName?: string): Promise<ModelSummary[]> {
     const sql = `
-      SELECT 
-        p.id,
-        p.data_collection_enabled,
-        p.max_connections,
-        p.connections,
-        p.model_name,
-        p.name,
-        p.online,
-        p.public,
-        p.provider,
-        COALESCE(ps.total_duration_minutes, 0) as duration_minutes,
-        COALESCE(ps.total_sessions, 0) as total_sessions,
-        COALESCE((SELECT COUNT(*) FROM metrics m2 
-                  JOIN provider_sessions ps2 ON ps2.id = m2.provider_session_id 
-                  WHERE ps2.peer_key = p.key), 0) as total_requests,
-        COALESCE(ps.active_sessions, 0) as active_sessions,
-        COALESCE(m.avg_tokens_per_second, 0) as avg_tokens_per_second,
-        COALESCE(m.avg_token_length, 0) as avg_token_length,
-        COALESCE(m.total_tokens, 0) as total_tokens,
-        COALESCE(m.total_bytes, 0) as total_bytes,
-        COALESCE(m.total_process_time, 0) as total_process_time
-      FROM peers p
+      SELECT
+        pm.model_name,
+        COUNT(*) as provider_count,
+        SUM(MAX(MIN(
+          COALESCE(p.max_connections, 0) - COALESCE(p.connections, 0),
+          COALESCE(pm.max_connections, p.max_connections, 0)
+        ), 0)) as free_capacity,
+        COALESCE(AVG(m.avg_tokens_per_second), 0) as average_tokens_per_second,
+        CAST(strftime('%s', MIN(p.created_at)) AS INTEGER) as created
+      FROM peer_models pm
+      JOIN peers p ON p.key = pm.peer_key
       LEFT JOIN (
-        SELECT 
-          peer_key,
-          COUNT(*) as total_sessions,
-          SUM(duration_minutes) as total_duration_minutes,
-          SUM(CASE WHEN end_time IS NULL THEN 1 ELSE 0 END) as active_sessions
-        FROM provider_sessions
-        GROUP BY peer_key
-      ) ps ON ps.peer_key = p.key
-      LEFT JOIN (
-        SELECT 
+        SELECT
           ps.peer_key,
-          AVG(m.average_tokens_per_second) as avg_tokens_per_second,
-          AVG(m.average_token_length) as avg_token_length,
-          SUM(m.total_tokens) as total_tokens,
-          SUM(m.total_bytes) as total_bytes,
-          SUM(m.total_process_time) as total_process_time
+          AVG(m.average_tokens_per_second) as avg_tokens_per_second
         FROM metrics m
         JOIN provider_sessions ps ON ps.id = m.provider_session_id
         GROUP BY ps.peer_key
       ) m ON m.peer_key = p.key
-      ORDER BY p.online DESC, ps.total_duration_minutes DESC
+      WHERE p.online = TRUE AND (? IS NULL OR pm.model_name = ?)
+      GROUP BY pm.model_name
+      ORDER BY pm.model_name
     `;
-    return this.allQuery<Peer>(sql);
+    return this.allQuery<ModelSummary>(sql, [
+      modelName ?? null,
+      modelName ?? null,
+    ]);
   }
 
-  async getAllPeersOnline(): Promise<Peer[]> {
-    const sql = `
-      SELECT 
-        p.id,
-        p.data_collection_enabled,
-        p.max_connections,
-        p.connections,
-        p.model_name,
-        p.name,
-        p.online,
-        p.public,
-        p.provider,
-        COALESCE(ps.total_duration_minutes, 0) as duration_minutes,
-        COALESCE(ps.total_sessions, 0) as total_sessions,
-        COALESCE((SELECT COUNT(*) FROM metrics m2 
-                  JOIN provider_sessions ps2 ON ps2.id = m2.provider_session_id 
-                  WHERE ps2.peer_key = p.key), 0) as total_requests,
-        COALESCE(ps.active_sessions, 0) as active_sessions,
-        COALESCE(m.avg_tokens_per_second, 0) as avg_tokens_per_second,
-        COALESCE(m.avg_token_length, 0) as avg_token_length,
-        COALESCE(m.total_tokens, 0) as total_tokens,
-        COALESCE(m.total_bytes, 0) as total_bytes,
-        COALESCE(m.total_process_time, 0) as total_process_time
-      FROM peers p
+  async getAllPeers(): Promise<ProviderSummary[]> {
+    const rows = await this.allQuery<ProviderSummaryRow>(`
+      SELECT * FROM (${PROVIDER_SUMMARY_SQL})
+      ORDER BY online DESC, duration_minutes DESC
+    `);
+    return rows.map(toProviderSummary);
+  }
+
+  async getAllPeersOnline(): Promise<ProviderSummary[]> {
+    const rows = await this.allQuery<ProviderSummaryRow>(`
+      SELECT * FROM (${PROVIDER_SUMMARY_SQL})
+      WHERE online IS TRUE
+      ORDER BY duration_minutes DESC
+    `);
+    return rows.map(toProviderSummary);
+  }
+
+  /**
+   * One page of the provider directory. Pages are keyed on the sort value and
+   * key of the previous page's last provider, so providers coming and going
+   * between pages do not shift the results.
+   */
+  async getProviders(query: ProviderQuery): Promise<ProviderSummary[]> {
+    const conditions: string[] = [];
+    const params: (string | number | boolean)[] = [];
+    const filters: [string, string | boolean | undefined][] = [
+      ["online", query.online],
+      ["public", query.public],
+      ["data_collection_enabled", query.dataCollection],
+      ["provider", query.provider],
+    ];
+
+    for (const [column, value] of filters) {
+      if (value === undefined) continue;
+      conditions.push(`${column} = ?`);
+      params.push(value);
+    }
+
+    if (query.model !== undefined) {
+      conditions.push(
+        "key IN (SELECT peer_key FROM peer_models WHERE model_name = ?)"
+      );
+      params.push(query.model);
+    }
+
+    const column = PROVIDER_SORT_COLUMNS[query.sort];
+    const direction = query.order === "asc" ? "ASC" : "DESC";
+    const comparison = query.order === "asc" ? ">" : "<";
+
+    if (query.cursor) {
+      conditions.push(
+        `(${column} ${comparison} ? OR (${column} = ? AND key ${comparison} ?))`
+      );
+      params.push(query.cursor.value, query.cursor.value, query.cursor.key);
+    }
+
+    const rows = await this.allQuery<ProviderSummaryRow>(
+      `SELECT * FROM (${PROVIDER_SUMMARY_SQL})
+      ${conditions.length ? `WHERE ${conditions.join(" AND ")}` : ""}
+      ORDER BY ${column} ${direction}, key ${direction}
+      LIMIT ?`,
+      [...params, query.limit]
+    );
+    return rows.map(toProviderSummary);
+  }
+
+  async getProvider(key: string): Promise<ProviderDetail | undefined> {
+    const row = await this.getQuery<
+      ProviderSummaryRow<Omit<ProviderDetail, "recent_sessions">>
+    >(
+      `SELECT
+        s.*,
+        p.website,
+        p.created_at,
+        COALESCE(o.completed_requests, 0) as completed_requests,
+        COALESCE(o.cancelled_requests, 0) as cancelled_requests,
+        COALESCE(o.timed_out_requests, 0) as timed_out_requests,
+        COALESCE((SELECT SUM(points) FROM points_ledger WHERE peer_key = p.key), 0)
+          as points
+      FROM (${PROVIDER_SUMMARY_SQL}) s
+      JOIN peers p ON p.key = s.key
       LEFT JOIN (
-        SELECT 
+        SELECT
           peer_key,
-          COUNT(*) as total_sessions,
-          SUM(duration_minutes) as total_duration_minutes,
-          SUM(CASE WHEN end_time IS NULL THEN 1 ELSE 0 END) as active_sessions
+          SUM(completed_requests) as completed_requests,
+          SUM(cancelled_requests) as cancelled_requests,
+          SUM(timed_out_requests) as timed_out_requests
         FROM provider_sessions
         GROUP BY peer_key
-      ) ps ON ps.peer_key = p.key
-      LEFT JOIN (
-        SELECT 
-          ps.peer_key,
-          AVG(m.average_tokens_per_second) as avg_tokens_per_second,
-          AVG(m.average_token_length) as avg_token_length,
-          SUM(m.total_tokens) as total_tokens,
-          SUM(m.total_bytes) as total_bytes,
-          SUM(m.total_process_time) as total_process_time
-        FROM metrics m
-        JOIN provider_sessions ps ON ps.id = m.provider_session_id
-        GROUP BY ps.peer_key
-      ) m ON m.peer_key = p.key
-      WHERE p.online IS TRUE
-      ORDER BY p.online DESC, ps.total_duration_minutes DESC
-    `;
-    return this.allQuery<Peer>(sql);
+      ) o ON o.peer_key = p.key
+      WHERE s.key = ?`,
+      [key]
+    );
+
+    if (!row) return undefined;
+
+    const recentSessions = await this.allQuery<ProviderSessionSummary>(
+      `SELECT
+        start_time,
+        end_time,
+        duration_minutes,
+        COALESCE(completed_requests, 0) as completed_requests,
+        COALESCE(cancelled_requests, 0) as cancelled_requests,
+        COALESCE(timed_out_requests, 0) as timed_out_requests
+      FROM provider_sessions
+      WHERE peer_key = ?
+      ORDER BY start_time DESC
+      LIMIT ?`,
+      [key, PROVIDER_RECENT_SESSIONS]
+    );
+
+    return { ...toProviderSummary(row), recent_sessions: recentSessions };
   }
 
   async resetAllPeerConnections(): Promise<void> {
@@ -235,8 +409,4 @@ export class PeerRepository extends BaseRepository {
           connections = 0
     `);
   }
-
-  async addPoints(peerKey: string, points: number): Promise<void> {
-    await this.runQuery(PREPARED_STATEMENTS.UPDATE_POINTS, [points, peerKey]);
-  }
 }
@@ -0,0 +1,200 @@
+import { LRUCache } from "lru-cache";
+
+import {
+  DEFAULT_PROVIDER_SELECTION_STRATEGY,
+  DEFAULT_STICKY_ROUTING_TTL_MINUTES,
+  MAX_STICKY_ROUTES,
+  PROVIDER_METRICS_WINDOW_MS,
+} from "./constants";
+import { InferenceRegistry } from "./inference-registry";
+import { PeerRepository } from "./provider-repository";
+import { ServerConfig } from "./server-config";
+import {
+  PeerSessionRequest,
+  ProviderCandidate,
+  ProviderSelectionStrategy,
+} from "./types";
+
+type SelectionStrategy = (candidates: ProviderCandidate[]) => ProviderCandidate;
+
+/**
+ * Requests the provider can still take for the selected model: its overall
+ * free connections, capped by the model's own limit when it has one.
+ */
+export const getFreeCapacity = (candidate: ProviderCandidate) => {
+  const free = Math.max(
+    0,
+    (candidate.max_connections || 0) - (candidate.connections || 0)
+  );
+  if (candidate.model_max_connections === null) return free;
+  return Math.min(
+    free,
+    Math.max(
+      0,
+      candidate.model_max_connections - (candidate.model_connections || 0)
+    )
+  );
+};
+
+const pickAny = (candidates: ProviderCandidate[]) =>
+  candidates[Math.floor(Math.random() * candidates.length)];
+
+const pickBest = (
+  candidates: ProviderCandidate[],
+  score: (candidate: ProviderCandidate) => number
+) => {
+  const best = Math.max(...candidates.map(score));
+  return pickAny(candidates.filter((candidate) => score(candidate) === best));
+};
+
+export const selectionStrategies: Record<
+  ProviderSelectionStrategy,
+  SelectionStrategy
+> = {
+  random: pickAny,
+  weighted: (candidates) => {
+    const total = candidates.reduce((sum, c) => sum + getFreeCapacity(c), 0);
+    let target = Math.random() * total;
+    for (const candidate of candidates) {
+      target -= getFreeCapacity(candidate);
+      if (target < 0) return candidate;
+    }
+    return candidates[candidates.length - 1];
+  },
+  "least-connections": (candidates) =>
+    pickBest(candidates, (candidate) => -(candidate.connections || 0)),
+  fastest: (candidates) =>
+    pickBest(candidates, (candidate) => candidate.recent_tokens_per_second),
+};
+
+export class ProviderSelector {
+  private _affinities: LRUCache<string, string>;
+  private _config: ServerConfig;
+  private _inferences: InferenceRegistry;
+  private _peerRepository: PeerRepository;
+
+  constructor(
+    config: ServerConfig,
+    peerRepository: PeerRepository,
+    inferences: InferenceRegistry
+  ) {
+    this._config = config;
+    this._peerRepository = peerRepository;
+    this._inferences = inferences;
+    this._affinities = new LRUCache<string, string>({
+      max: MAX_STICKY_ROUTES,
+      ttl:
+        (config.get("stickyRoutingTtlMinutes") ||
+          DEFAULT_STICKY_ROUTING_TTL_MINUTES) *
+        60 *
+        1000,
+    });
+  }
+
+  get strategy(): ProviderSelectionStrategy {
+    return (
+      this._config.get("providerSelectionStrategy") ||
+      DEFAULT_PROVIDER_SELECTION_STRATEGY
+    );
+  }
+
+  /**
+   * Picks a provider for the requested model. A preferred provider wins when it
+   * is online with free capacity, then the provider this affinity key was last
+   * routed to (when sticky routing is enabled), then the configured strategy.
+   * Providers in `excludeKeys` (e.g. ones that already failed) are skipped.
+   */
+  async select(
+    request: PeerSessionRequest,
+    affinityKey?: string,
+    excludeKeys: Set<string> = new Set()
+  ): Promise<ProviderCandidate | undefined> {
+    if (!request?.modelName) return undefined;
+
+    const candidates = await this.getCandidates(request, excludeKeys);
+    const available = candidates.filter(
+      (candidate) => getFreeCapacity(candidate) > 0
+    );
+
+    if (!available.length) return undefined;
+
+    const preferred = this.findByKey(available, request.preferredProviderId);
+    if (preferred) return this.remember(affinityKey, preferred);
+
+    const sticky = this.getStickyKey(affinityKey);
+    const previous = this.findByKey(available, sticky);
+    if (previous) return this.remember(affinityKey, previous);
+
+    return this.remember(
+      affinityKey,
+      selectionStrategies[this.strategy](available)
+    );
+  }
+
+  /**
+   * True when providers for the model are online but none has free capacity,
+   * meaning the request is worth queueing rather than rejecting.
+   */
+  async isSaturated(
+    request: PeerSessionRequest,
+    excludeKeys: Set<string> = new Set()
+  ): Promise<boolean> {
+    if (!request?.modelName) return false;
+    const candidates = await this.getCandidates(request, excludeKeys);
+    return (
+      candidates.length > 0 &&
+      candidates.every((candidate) => getFreeCapacity(candidate) === 0)
+    );
+  }
+
+  private async getCandidates(
+    request: PeerSessionRequest,
+    excludeKeys: Set<string>
+  ): Promise<ProviderCandidate[]> {
+    const candidates = await this._peerRepository.getCandidates(
+      request.modelName,
+      Date.now() - PROVIDER_METRICS_WINDOW_MS
+    );
+
+    return candidates
+      .filter((candidate) => !excludeKeys.has(candidate.key))
+      .map((candidate) => {
+        const inFlight = this._inferences.countForPeer(candidate.key);
+        // Untagged output can only be routed to one request, so providers
+        // that have never sent an inferenceChunk take one at a time.
+        const untaggedBusy =
+          inFlight > 0 && !this._inferences.isTagged(candidate.key);
+        const connections = (candidate.connections || 0) + inFlight;
+        return {
+          ...candidate,
+          connections: untaggedBusy
+            ? Math.max(connections, candidate.max_connections || 0)
+            : connections,
+          model_connections: this._inferences.countForPeer(
+            candidate.key,
+            request.modelName
+          ),
+        };
+      });
+  }
+
+  private findByKey(candidates: ProviderCandidate[], key?: string) {
+    if (!key) return undefined;
+    return candidates.find((candidate) => candidate.key === key);
+  }
+
+  private getStickyKey(affinityKey?: string) {
+    if (!affinityKey || !this._config.get("stickyRouting")) return undefined;
+    return this._affinities.get(affinityKey);
+  }
+
+  private remember(
+    affinityKey: string | undefined,
+    candidate: ProviderCandidate
+  ) {
+    if (affinityKey && this._config.get("stickyRouting")) {
+      this._affinities.set(affinityKey, candidate.key);
+    }
+    return candidate;
+  }
+}
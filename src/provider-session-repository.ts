@@ -1,6 +1,12 @@
 import { BaseRepository } from "./base-repository";
 import { database } from "./database";
-import { SessionStats } from "./types";
+import { RequestOutcome, SessionStats } from "./types";
+
+const OUTCOME_COLUMNS: Record<RequestOutcome, string> = {
+  completed: "completed_requests",
+  cancelled: "cancelled_requests",
+  timed_out: "timed_out_requests",
+};
 
 export class ProviderSessionRepository extends BaseRepository {
   constructor() {
@@ -18,18 +24,32 @@ export class ProviderSessionRepository extends BaseRepository {
   async updateSessionDuration(peerKey: string): Promise<void> {
     await this.runQuery(
       `UPDATE provider_sessions 
-       SET duration_minutes = ROUND((JULIANDAY(CURRENT_TIMESTAMP) - JULIANDAY(start_time)) * 1440)
+       SET duration_minutes = ROUND((JULIANDAY(CURRENT_TIMESTAMP) - JULIANDAY(start_time)) * 1440 - COALESCE(paused_seconds, 0) / 60.0)
        WHERE peer_key = ? AND end_time IS NULL`,
       [peerKey]
     );
   }
 
-  async endSession(peerKey: string): Promise<void> {
+  /**
+   * Continues the active session of a provider that reconnected within the
+   * grace period, leaving the time it was away out of its duration.
+   */
+  async resumeSession(peerKey: string, pausedMs: number): Promise<void> {
+    await this.runQuery(
+      `UPDATE provider_sessions
+       SET paused_seconds = COALESCE(paused_seconds, 0) + ?
+       WHERE peer_key = ? AND end_time IS NULL`,
+      [Math.round(pausedMs / 1000), peerKey]
+    );
+  }
+
+  /** Ends the active session, at `endedAt` (epoch milliseconds) or now. */
+  async endSession(peerKey: string, endedAt?: number): Promise<void> {
     await this.runQuery(
       `UPDATE provider_sessions 
-       SET end_time = CURRENT_TIMESTAMP
+       SET end_time = COALESCE(datetime(? / 1000, 'unixepoch'), CURRENT_TIMESTAMP)
        WHERE peer_key = ? AND end_time IS NULL`,
-      [peerKey]
+      [endedAt ?? null, peerKey]
     );
   }
 
@@ -57,6 +77,7 @@ export class ProviderSessionRepository extends BaseRepository {
     averageTokenLength: number;
     startTime: number;
     totalTokens: number;
+    requestId?: string;
   }): Promise<void> {
     const query = `
       INSERT INTO metrics (
@@ -66,8 +87,10 @@ export class ProviderSessionRepository extends BaseRepository {
           total_process_time,
           average_token_length,
           start_time,
-          total_tokens
-      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+          total_tokens,
+          request_id,
+          recorded_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
     `;
 
     const params = [
@@ -78,6 +101,8 @@ export class ProviderSessionRepository extends BaseRepository {
       metrics.averageTokenLength,
       metrics.startTime,
       metrics.totalTokens,
+      metrics.requestId ?? null,
+      Date.now(),
     ];
 
     await this.runQuery(query, params);
@@ -91,6 +116,18 @@ export class ProviderSessionRepository extends BaseRepository {
     );
   }
 
+  async logRequestOutcome(
+    peerKey: string,
+    outcome: RequestOutcome
+  ): Promise<void> {
+    const column = OUTCOME_COLUMNS[outcome];
+    await this.runQuery(
+      `UPDATE provider_sessions SET ${column} = ${column} + 1
+       WHERE peer_key = ? AND end_time IS NULL`,
+      [peerKey]
+    );
+  }
+
   async getStats(): Promise<SessionStats> {
     const row = await this.getQuery<SessionStats>(
       `SELECT 
@@ -99,6 +136,9 @@ export class ProviderSessionRepository extends BaseRepository {
         WHEN date(start_time) = date('now') AND datetime(start_time) <= datetime('now') 
         THEN total_requests ELSE 0 END) as totalRequestsToday,
         SUM(total_requests) as totalRequests,
+        SUM(completed_requests) as completedRequests,
+        SUM(cancelled_requests) as cancelledRequests,
+        SUM(timed_out_requests) as timedOutRequests,
         ROUND(AVG(CASE WHEN duration_minutes IS NOT 0 THEN duration_minutes ELSE NULL END), 2) as averageSessionMinutes,
         SUM(duration_minutes) as totalProviderTime
       FROM provider_sessions`
@@ -109,6 +149,9 @@ export class ProviderSessionRepository extends BaseRepository {
       activeSessions: row.activeSessions || 0,
       totalRequests: row.totalRequests || 0,
       totalRequestsToday: row.totalRequestsToday || 0,
+      completedRequests: row.completedRequests || 0,
+      cancelledRequests: row.cancelledRequests || 0,
+      timedOutRequests: row.timedOutRequests || 0,
       averageSessionMinutes: row.averageSessionMinutes || 0,
       totalProviderTime: row.totalProviderTime || 0,
     };
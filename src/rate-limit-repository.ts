@@ -0,0 +1,48 @@
+import { BaseRepository } from "./base-repository";
+import { database } from "./database";
+import { RateLimitStore } from "./rate-limiter";
+
+const PRUNE_INTERVAL = 1000;
+
+/**
+ * Persists rate limit counts so limits survive restarts and can be shared by
+ * several servers using the same database.
+ */
+export class RateLimitRepository
+  extends BaseRepository
+  implements RateLimitStore
+{
+  private _writes = 0;
+
+  constructor() {
+    super(database);
+  }
+
+  async get(key: string, windowStart: number): Promise<number> {
+    const row = await this.getQuery<{ count: number }>(
+      "SELECT count FROM rate_limits WHERE key = ? AND window_start = ?",
+      [key, windowStart]
+    );
+    return row?.count || 0;
+  }
+
+  async increment(
+    key: string,
+    windowStart: number,
+    expiresAt: number
+  ): Promise<void> {
+    await this.runQuery(
+      `INSERT INTO rate_limits (key, window_start, count, expires_at) VALUES (?, ?, 1, ?)
+       ON CONFLICT(key, window_start) DO UPDATE SET count = count + 1`,
+      [key, windowStart, expiresAt]
+    );
+
+    if (++this._writes % PRUNE_INTERVAL === 0) await this.prune();
+  }
+
+  async prune(): Promise<void> {
+    await this.runQuery("DELETE FROM rate_limits WHERE expires_at < ?", [
+      Date.now(),
+    ]);
+  }
+}
@@ -0,0 +1,147 @@
+import { LRUCache } from "lru-cache";
+
+import { MAX_RATE_LIMIT_KEYS } from "./constants";
+import { RateLimitIdentity, RateLimitResult, RateLimitRule } from "./types";
+
+/**
+ * Hit counts per key and fixed window. Entries only need to live for two
+ * windows, after which they may be discarded.
+ */
+export interface RateLimitStore {
+  get(key: string, windowStart: number): Promise<number>;
+  increment(key: string, windowStart: number, expiresAt: number): Promise<void>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private _counts = new LRUCache<string, number>({ max: MAX_RATE_LIMIT_KEYS });
+
+  async get(key: string, windowStart: number) {
+    return this._counts.get(`${key}:${windowStart}`) || 0;
+  }
+
+  async increment(key: string, windowStart: number, expiresAt: number) {
+    const bucket = `${key}:${windowStart}`;
+    this._counts.set(bucket, (this._counts.get(bucket) || 0) + 1, {
+      ttl: Math.max(1, expiresAt - Date.now()),
+    });
+  }
+}
+
+interface RuleState {
+  key: string;
+  rule: RateLimitRule;
+  result: RateLimitResult;
+  windowStart: number;
+}
+
+const getBucketKey = (rule: RateLimitRule, value: string) =>
+  `${rule.identity}:${rule.route ?? "*"}:${rule.limit}/${
+    rule.windowSeconds
+  }:${value}`;
+
+export const toRateLimitHeaders = (result: RateLimitResult) => ({
+  "X-RateLimit-Limit": String(result.limit),
+  "X-RateLimit-Remaining": String(result.remaining),
+  "X-RateLimit-Reset": String(result.resetSeconds),
+  ...(!result.allowed && { "Retry-After": String(result.retryAfterSeconds) }),
+});
+
+/**
+ * Sliding window limiter. Each window's count is blended with the previous
+ * window's, weighted by how much of it still overlaps the sliding window, so
+ * limits never reset all at once at a window boundary.
+ */
+export class RateLimiter {
+  private _pending: Promise<unknown> = Promise.resolve();
+  private _rules: RateLimitRule[];
+  private _store: RateLimitStore;
+
+  constructor(rules: RateLimitRule[], store: RateLimitStore) {
+    this._rules = rules;
+    this._store = store;
+  }
+
+  getRules(identity: RateLimitIdentity, route?: string): RateLimitRule[] {
+    return this._rules.filter(
+      (rule) =>
+        rule.identity === identity && (!rule.route || rule.route === route)
+    );
+  }
+
+  /**
+   * Counts a hit for `value` against every matching rule. Nothing is counted
+   * when a rule rejects it. Returns the most restrictive result, or undefined
+   * when no rule applies. Hits are applied one at a time so concurrent
+   * requests cannot read the same count.
+   */
+  hit(
+    identity: RateLimitIdentity,
+    value: string,
+    route?: string,
+    rules = this.getRules(identity, route)
+  ): Promise<RateLimitResult | undefined> {
+    const result = this._pending.then(() => this.apply(value, rules));
+    this._pending = result.catch(() => undefined);
+    return result;
+  }
+
+  private async apply(value: string, rules: RateLimitRule[]) {
+    const now = Date.now();
+    const states = new Map<string, RuleState>();
+
+    for (const rule of rules) {
+      const key = getBucketKey(rule, value);
+      if (states.has(key)) continue;
+      states.set(key, { key, rule, ...(await this.getState(key, rule, now)) });
+    }
+
+    const results = [...states.values()];
+    const rejected = results.filter((state) => !state.result.allowed);
+
+    if (rejected.length) {
+      return rejected.reduce((a, b) =>
+        b.result.retryAfterSeconds > a.result.retryAfterSeconds ? b : a
+      ).result;
+    }
+
+    for (const { key, rule, windowStart } of results) {
+      const windowMs = rule.windowSeconds * 1000;
+      await this._store.increment(key, windowStart, windowStart + windowMs * 2);
+    }
+
+    return results.reduce<RateLimitResult | undefined>(
+      (tightest, { result }) =>
+        !tightest || result.remaining < tightest.remaining ? result : tightest,
+      undefined
+    );
+  }
+
+  private async getState(key: string, rule: RateLimitRule, now: number) {
+    const windowMs = rule.windowSeconds * 1000;
+    const windowStart = Math.floor(now / windowMs) * windowMs;
+    const elapsed = now - windowStart;
+
+    const current = await this._store.get(key, windowStart);
+    const previous = await this._store.get(key, windowStart - windowMs);
+    const count = previous * (1 - elapsed / windowMs) + current;
+    const allowed = count < rule.limit;
+
+    // Time until the blended count falls back under the limit.
+    const retryAfterMs =
+      current >= rule.limit
+        ? windowMs - elapsed + windowMs * Math.max(0, 1 - rule.limit / current)
+        : windowMs * (1 - (rule.limit - current) / previous) - elapsed;
+
+    const result: RateLimitResult = {
+      allowed,
+      limit: rule.limit,
+      remaining: allowed ? Math.max(0, Math.floor(rule.limit - count - 1)) : 0,
+      resetSeconds: Math.ceil((windowMs - elapsed) / 1000),
+      retryAfterSeconds: allowed
+        ? 0
+        : Math.max(1, Math.ceil(retryAfterMs / 1000)),
+    };
+
+    return { result, windowStart };
+  }
+}
@@ -0,0 +1,144 @@
+import { logger } from "./logger";
+
+export interface QueuedRequest {
+  id: string;
+  modelName: string;
+  /** Resolves true once the request no longer needs to wait. */
+  tryDispatch: () => Promise<boolean>;
+  onPosition?: (position: number) => void;
+  onTimeout: () => void;
+  /** Called when the queue is closed before the request was dispatched. */
+  onClosed?: () => void;
+}
+
+interface QueueEntry extends QueuedRequest {
+  timeout: NodeJS.Timeout;
+}
+
+export class RequestQueue {
+  private _draining: Set<string> = new Set();
+  private _maxDepth: number;
+  private _pendingDrains: Set<string> = new Set();
+  private _queues: Map<string, QueueEntry[]> = new Map();
+  private _waitTimeoutMs: number;
+
+  constructor(maxDepth: number, waitTimeoutMs: number) {
+    this._maxDepth = maxDepth;
+    this._waitTimeoutMs = waitTimeoutMs;
+  }
+
+  enqueue(request: QueuedRequest): boolean {
+    const queue = this._queues.get(request.modelName) || [];
+
+    if (queue.length >= this._maxDepth) return false;
+
+    const timeout = setTimeout(() => {
+      this.remove(request.id);
+      request.onTimeout();
+    }, this._waitTimeoutMs);
+
+    queue.push({ ...request, timeout });
+    this._queues.set(request.modelName, queue);
+    request.onPosition?.(queue.length);
+    return true;
+  }
+
+  remove(requestId: string): boolean {
+    for (const [modelName, queue] of this._queues) {
+      const index = queue.findIndex((entry) => entry.id === requestId);
+      if (index === -1) continue;
+      clearTimeout(queue[index].timeout);
+      queue.splice(index, 1);
+      if (!queue.length) this._queues.delete(modelName);
+      this.notifyPositions(queue, index);
+      return true;
+    }
+    return false;
+  }
+
+  getDepth(modelName: string): number {
+    return this._queues.get(modelName)?.length || 0;
+  }
+
+  /** Removes every waiting request, for shutdown. */
+  close() {
+    const entries = [...this._queues.values()].flat();
+    this._queues.clear();
+    for (const entry of entries) {
+      clearTimeout(entry.timeout);
+      entry.onClosed?.();
+    }
+  }
+
+  get size() {
+    let size = 0;
+    for (const queue of this._queues.values()) size += queue.length;
+    return size;
+  }
+
+  /**
+   * Hands freed capacity to waiting requests in FIFO order. Stops at the first
+   * request that still cannot be dispatched so later ones never jump the queue.
+   * Omitting the model drains every queue.
+   */
+  async drain(modelName?: string): Promise<void> {
+    if (!modelName) {
+      await Promise.all([...this._queues.keys()].map((m) => this.drain(m)));
+      return;
+    }
+
+    if (this._draining.has(modelName)) {
+      this._pendingDrains.add(modelName);
+      return;
+    }
+
+    this._draining.add(modelName);
+
+    try {
+      do {
+        this._pendingDrains.delete(modelName);
+        await this.drainQueue(modelName);
+      } while (this._pendingDrains.has(modelName));
+    } finally {
+      this._draining.delete(modelName);
+    }
+  }
+
+  private async drainQueue(modelName: string) {
+    const queue = this._queues.get(modelName);
+    let dispatched = 0;
+
+    while (queue?.length) {
+      const entry = queue[0];
+      let done = true;
+
+      try {
+        done = await entry.tryDispatch();
+      } catch (error) {
+        logger.error(
+          `🚨 Failed to dispatch queued request ${entry.id}:`,
+          error
+        );
+      }
+
+      if (!done) break;
+
+      if (queue[0] === entry) {
+        clearTimeout(entry.timeout);
+        queue.shift();
+        dispatched++;
+      }
+    }
+
+    if (queue && !queue.length && this._queues.get(modelName) === queue) {
+      this._queues.delete(modelName);
+    }
+    if (queue && dispatched) this.notifyPositions(queue, 0);
+  }
+
+  private notifyPositions(queue: QueueEntry[], from: number) {
+    for (let i = from; i < queue.length; i++) {
+      queue[i].onPosition?.(i + 1);
+    }
+  }
+}
@@ -0,0 +1,109 @@
+import { BaseRepository } from "./base-repository";
+import { database } from "./database";
+import { RequestRecord, UsageGroup, UsageQuery, UsageRow } from "./types";
+
+const USAGE_GROUP_COLUMNS: Record<UsageGroup, string> = {
+  day: "date(started_at) as day",
+  model: "model_name as model",
+  provider: "peer_key as provider",
+  client: "COALESCE('key:' || api_key_id, client_ip) as client",
+};
+
+export class RequestRepository extends BaseRepository {
+  constructor() {
+    super(database);
+  }
+
+  async record(request: RequestRecord): Promise<void> {
+    await this.runQuery(
+      `INSERT INTO requests (
+          id,
+          api_key_id,
+          client_ip,
+          model_name,
+          peer_key,
+          started_at,
+          ended_at,
+          time_to_first_token_ms,
+          prompt_tokens,
+          completion_tokens,
+          attempts,
+          outcome,
+          error
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        request.id,
+        request.apiKeyId ?? null,
+        request.clientIp,
+        request.modelName,
+        request.peerKey || null,
+        new Date(request.startedAt).toISOString(),
+        new Date(request.endedAt).toISOString(),
+        request.timeToFirstTokenMs ?? null,
+        request.promptTokens,
+        request.completionTokens,
+        request.attempts,
+        request.outcome,
+        request.error ?? null,
+      ]
+    );
+  }
+
+  /**
+   * Completion tokens of a request the provider completed, as counted by the
+   * server. Undefined when the ledger has no such completed request.
+   */
+  async getCompletedTokens(
+    id: string,
+    peerKey: string
+  ): Promise<number | undefined> {
+    const row = await this.getQuery<{ completion_tokens: number } | undefined>(
+      `SELECT completion_tokens FROM requests
+       WHERE id = ? AND peer_key = ? AND outcome = 'completed'`,
+      [id, peerKey]
+    );
+    return row?.completion_tokens;
+  }
+
+  async getUsage(query: UsageQuery): Promise<UsageRow[]> {
+    const conditions = ["started_at >= ?", "started_at < ?"];
+    const params: (string | number)[] = [query.from, query.to];
+
+    if (query.apiKeyId === null) {
+      conditions.push("api_key_id IS NULL");
+    } else if (query.apiKeyId !== undefined) {
+      conditions.push("api_key_id = ?");
+      params.push(query.apiKeyId);
+    }
+
+    if (query.clientIp) {
+      conditions.push("client_ip = ?");
+      params.push(query.clientIp);
+    }
+
+    const groups = query.groupBy.map((group) => USAGE_GROUP_COLUMNS[group]);
+    // Grouped columns come first, so they are referenced by position.
+    const positions = groups.map((_, i) => i + 1).join(", ");
+    const groupBy = groups.length
+      ? `GROUP BY ${positions} ORDER BY ${positions}`
+      : "";
+
+    return this.allQuery<UsageRow>(
+      `SELECT
+        ${groups.map((group) => `${group},`).join("\n        ")}
+        COUNT(*) as requests,
+        SUM(outcome = 'completed') as completed,
+        SUM(outcome = 'cancelled') as cancelled,
+        SUM(outcome = 'timed_out') as timed_out,
+        SUM(outcome = 'failed') as failed,
+        SUM(prompt_tokens) as prompt_tokens,
+        SUM(completion_tokens) as completion_tokens,
+        SUM(prompt_tokens + completion_tokens) as total_tokens,
+        ROUND(AVG(time_to_first_token_ms)) as average_time_to_first_token_ms
+      FROM requests
+      WHERE ${conditions.join(" AND ")}
+      ${groupBy}`,
+      params
+    );
+  }
+}
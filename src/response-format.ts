@@ -0,0 +1,26 @@
+import { PendingInference } from "./inference-registry";
+import { CompletionDelta } from "./types";
+
+/**
+ * Renders an inference in a client-facing API format. Stream methods return
+ * raw SSE text to write; `completion` and `error` return JSON bodies for
+ * non-streaming requests. Errors may carry a machine-readable `code`, such as
+ * `timeout`.
+ */
+export interface ResponseFormat {
+  streamStart(inference: PendingInference): string;
+  streamDelta(inference: PendingInference, delta: CompletionDelta): string;
+  streamEnd(inference: PendingInference): string;
+  streamError(
+    inference: PendingInference,
+    message: string,
+    code?: string
+  ): string;
+  completion(inference: PendingInference): unknown;
+  error(message: string, code?: string): unknown;
+}
+
+export const toSSE = (data: unknown, event?: string) =>
+  `${event ? `event: ${event}\n` : ""}data: ${
+    typeof data === "string" ? data : JSON.stringify(data)
+  }\n\n`;
@@ -0,0 +1,118 @@
+import {
+  DEFAULT_REWARD_WEIGHTS,
+  REWARD_UPTIME_PAYOUT_MINUTES,
+} from "./constants";
+import { logger } from "./logger";
+import { RequestRepository } from "./request-repository";
+import { RewardRepository } from "./reward-repository";
+import { ServerConfig } from "./server-config";
+import { RewardReason, RewardWeights } from "./types";
+
+/**
+ * Awards providers points for the uptime of their sessions, for completions
+ * and for tokens served, and takes points away for missed health checks.
+ * Every award is written to the points ledger.
+ */
+export class RewardEngine {
+  private _requestRepository: RequestRepository;
+  private _rewardRepository: RewardRepository;
+  private _weights: RewardWeights;
+
+  constructor(
+    config: ServerConfig,
+    rewardRepository: RewardRepository,
+    requestRepository: RequestRepository
+  ) {
+    this._rewardRepository = rewardRepository;
+    this._requestRepository = requestRepository;
+    this._weights = { ...DEFAULT_REWARD_WEIGHTS, ...config.get("rewards") };
+  }
+
+  /**
+   * Pays out the active session's uptime once at least `minMinutes` have
+   * built up since the last payout, so the ledger gets one uptime entry per
+   * block rather than one per minute.
+   */
+  async rewardUptime(
+    peerKey: string,
+    minMinutes = REWARD_UPTIME_PAYOUT_MINUTES
+  ) {
+    try {
+      const session = await this._rewardRepository.getUnrewardedUptime(peerKey);
+      if (!session || session.minutes <= 0 || session.minutes < minMinutes) {
+        return;
+      }
+      await this._rewardRepository.markUptimeRewarded(
+        session.id,
+        session.minutes
+      );
+      await this.award(
+        peerKey,
+        "uptime",
+        session.minutes * this._weights.uptimeMinute,
+        session.minutes
+      );
+    } catch (error) {
+      logger.error(`🚨 Failed to reward uptime for ${peerKey}:`, error);
+    }
+  }
+
+  /**
+   * Pays for a request the provider completed, by the completion tokens the
+   * server counted for it in the request ledger rather than the ones the
+   * provider reports.
+   */
+  async rewardCompletion(peerKey: string, requestId: string) {
+    let tokens: number | undefined;
+    try {
+      tokens = await this._requestRepository.getCompletedTokens(
+        requestId,
+        peerKey
+      );
+    } catch (error) {
+      logger.error(`🚨 Failed to read request ${requestId}:`, error);
+    }
+    if (tokens === undefined) return;
+
+    await this.award(
+      peerKey,
+      "completion",
+      this._weights.completion + (tokens / 1000) * this._weights.thousandTokens,
+      tokens,
+      requestId
+    );
+  }
+
+  async penalizeHealthCheckFailure(peerKey: string) {
+    await this.award(
+      peerKey,
+      "health_check_failure",
+      -this._weights.healthCheckFailure,
+      1
+    );
+  }
+
+  private async award(
+    peerKey: string,
+    reason: RewardReason,
+    points: number,
+    amount: number,
+    requestId?: string
+  ) {
+    if (!points) return;
+    try {
+      await this._rewardRepository.addEntry({
+        peerKey,
+        reason,
+        points,
+        amount,
+        requestId,
+      });
+    } catch (error) {
+      logger.error(
+        `🚨 Failed to record ${reason} points for ${peerKey}:`,
+        error
+      );
+    }
+  }
+}
@@ -0,0 +1,77 @@
+import { BaseRepository } from "./base-repository";
+import { database } from "./database";
+import { LeaderboardEntry, RewardReason } from "./types";
+
+export class RewardRepository extends BaseRepository {
+  constructor() {
+    super(database);
+  }
+
+  async addEntry(entry: {
+    peerKey: string;
+    reason: RewardReason;
+    points: number;
+    amount: number;
+    requestId?: string;
+  }): Promise<void> {
+    await this.runQuery(
+      `INSERT INTO points_ledger (peer_key, reason, points, amount, request_id)
+       VALUES (?, ?, ?, ?, ?)`,
+      [
+        entry.peerKey,
+        entry.reason,
+        entry.points,
+        entry.amount,
+        entry.requestId ?? null,
+      ]
+    );
+  }
+
+  /**
+   * Minutes of the peer's active session not yet paid out as uptime points.
+   */
+  async getUnrewardedUptime(
+    peerKey: string
+  ): Promise<{ id: number; minutes: number } | undefined> {
+    return this.getQuery(
+      `SELECT id, COALESCE(duration_minutes, 0) - COALESCE(rewarded_minutes, 0) as minutes
+       FROM provider_sessions
+       WHERE peer_key = ? AND end_time IS NULL`,
+      [peerKey]
+    );
+  }
+
+  async markUptimeRewarded(sessionId: number, minutes: number): Promise<void> {
+    await this.runQuery(
+      "UPDATE provider_sessions SET rewarded_minutes = COALESCE(rewarded_minutes, 0) + ? WHERE id = ?",
+      [minutes, sessionId]
+    );
+  }
+
+  /**
+   * Ranks providers by the points they earned over the last `days` days, or
+   * over all time when `days` is null.
+   */
+  async getLeaderboard(
+    limit: number,
+    days: number | null
+  ): Promise<LeaderboardEntry[]> {
+    return this.allQuery<LeaderboardEntry>(
+      `SELECT
+        l.peer_key,
+        p.name,
+        ROUND(SUM(l.points), 2) as points,
+        ROUND(SUM(CASE WHEN l.reason = 'uptime' THEN l.amount ELSE 0 END)) as uptime_minutes,
+        SUM(l.reason = 'completion') as completions,
+        SUM(CASE WHEN l.reason = 'completion' THEN l.amount ELSE 0 END) as tokens,
+        SUM(l.reason = 'health_check_failure') as health_check_failures
+      FROM points_ledger l
+      LEFT JOIN peers p ON p.key = l.peer_key
+      WHERE ? IS NULL OR l.created_at >= datetime('now', '-' || ? || ' days')
+      GROUP BY l.peer_key
+      ORDER BY points DESC
+      LIMIT ?`,
+      [days, days, limit]
+    );
+  }
+}
@@ -1,7 +1,15 @@
 import fs from "fs";
 import yaml from "js-yaml";
+import net from "net";
 
 import { Config } from "./types";
+import {
+  DEFAULT_REWARD_WEIGHTS,
+  PROVIDER_SELECTION_STRATEGIES,
+  RATE_LIMIT_IDENTITIES,
+  RATE_LIMIT_STORES,
+  TRUSTED_PROXY_NAMES,
+} from "./constants";
 
 export class ServerConfig {
   private config: Config;
@@ -41,6 +49,68 @@ export class ServerConfig {
         `Invalid value for wsPort in client configuration: ${this.config.apiPort}`
       );
     }
+
+    const strategy = this.config.providerSelectionStrategy;
+    if (strategy && !PROVIDER_SELECTION_STRATEGIES.includes(strategy)) {
+      throw new Error(
+        `Invalid value for providerSelectionStrategy in server configuration: ${strategy}`
+      );
+    }
+
+    const store = this.config.rateLimitStore;
+    if (store && !RATE_LIMIT_STORES.includes(store)) {
+      throw new Error(
+        `Invalid value for rateLimitStore in server configuration: ${store}`
+      );
+    }
+
+    for (const proxy of this.config.trustedProxies ?? []) {
+      if (!this.isValidProxy(proxy)) {
+        throw new Error(
+          `Invalid value for trustedProxies in server configuration: ${proxy}`
+        );
+      }
+    }
+
+    for (const rule of this.config.rateLimits ?? []) {
+      if (
+        !RATE_LIMIT_IDENTITIES.includes(rule?.identity) ||
+        !(rule.limit > 0) ||
+        !(rule.windowSeconds > 0)
+      ) {
+        throw new Error(
+          `Invalid rate limit in server configuration: ${JSON.stringify(rule)}`
+        );
+      }
+    }
+
+    for (const [weight, value] of Object.entries(this.config.rewards ?? {})) {
+      if (
+        !Object.keys(DEFAULT_REWARD_WEIGHTS).includes(weight) ||
+        typeof value !== "number" ||
+        value < 0
+      ) {
+        throw new Error(
+          `Invalid value for rewards.${weight} in server configuration: ${value}`
+        );
+      }
+    }
+  }
+
+  private isValidProxy(proxy: string) {
+    if (typeof proxy !== "string") return false;
+    if (TRUSTED_PROXY_NAMES.includes(proxy)) return true;
+
+    const [address, prefix, ...rest] = proxy.split("/");
+    const version = net.isIP(address);
+
+    if (!version || rest.length) return false;
+    if (prefix === undefined) return true;
+
+    const bits = Number(prefix);
+    return (
+      /^\d+$/.test(prefix) && bits >= 0 && bits <= (version === 4 ? 32 : 128)
+    );
   }
 
   get<K extends keyof Config>(key: K): Config[K];
@@ -3,7 +3,6 @@ import Hyperswarm from "hyperswarm";
 import semver from "semver";
 import crypto from "hypercore-crypto";
 import cryptoLib from "node:crypto";
-import { LRUCache } from "lru-cache";
 import {
   InferenceRequest,
   Peer,
@@ -13,14 +12,38 @@ import {
 
 import { ServerConfig as ServerConfig } from "./server-config";
 import { createMessage } from "./utils";
+import { closeDatabase } from "./database";
 import { logger } from "./logger";
 import {
+  DEFAULT_QUEUE_MAX_DEPTH,
+  DEFAULT_QUEUE_WAIT_TIMEOUT_MS,
+  DEFAULT_RATE_LIMITS,
+  DEFAULT_RECONNECT_GRACE_MS,
+  DEFAULT_SHUTDOWN_TIMEOUT_MS,
+  extendedServerMessageKeys,
+  JOIN_REJECTION_CLOSE_DELAY_MS,
+  JOIN_REJECTION_MESSAGES,
   MAX_RANDOM_PEER_REQUEST_ATTEMPTS,
   MIN_SUPPORTED_SYMMETRY_CORE_VERSION,
 } from "./constants";
-import { MessageRepository } from "./message-repository";
+import { InferenceRegistry } from "./inference-registry";
+import { verifyJoin } from "./join-verification";
+import { MetricRollupRepository } from "./metric-rollup-repository";
+import { MetricsRollup } from "./metrics-rollup";
+import { ApiKeyRepository } from "./api-key-repository";
+import { describeAccessEntry, PeerAccessList } from "./peer-access";
+import { PeerAccessRepository } from "./peer-access-repository";
+import { parsePeerModels } from "./peer-models";
+import { serverMetrics } from "./prometheus";
 import { PeerRepository } from "./provider-repository";
+import { MemoryRateLimitStore, RateLimiter } from "./rate-limiter";
+import { RateLimitRepository } from "./rate-limit-repository";
+import { ProviderSelector } from "./provider-selector";
 import { ProviderSessionRepository } from "./provider-session-repository";
+import { RequestQueue } from "./request-queue";
+import { RequestRepository } from "./request-repository";
+import { RewardEngine } from "./reward-engine";
+import { RewardRepository } from "./reward-repository";
 import { SessionRepository } from "./session-repository";
 
 import {
@@ -28,30 +51,52 @@ import {
   ClientMessage,
   CompletionMetrics,
   ConnectionSizeUpdate,
+  InferenceChunk,
+  InferenceError,
+  JoinRejectionReason,
   PeerSessionRequest,
   PeerUpsert,
+  RateLimitRule,
 } from "./types";
 import { WebServer } from "./web-server";
 
+// Messages that would start new work, refused once shutdown has begun.
+const NEW_WORK_KEYS: string[] = [
+  serverMessageKeys.join,
+  serverMessageKeys.inference,
+  serverMessageKeys.requestProvider,
+];
+
 export class SymmetryServer {
   private _config: ServerConfig;
+  private _connections: Map<string, Peer> = new Map();
+  private _disconnectedPeers: Map<
+    string,
+    { since: number; timeout?: NodeJS.Timeout }
+  > = new Map();
   private _durationIntervals: Map<string, NodeJS.Timeout> = new Map();
+  private _firewalledKeys: Set<string> = new Set();
   private _heartbeatIntervals: Map<string, NodeJS.Timeout> = new Map();
+  private _inferences: InferenceRegistry = new InferenceRegistry();
   private _inferenceTokens: Set<string> = new Set<string>();
-  private _messageRateLimitCache: LRUCache<string, number>;
-  private _messageRepository: MessageRepository;
+  private _metricsRollup: MetricsRollup;
   private _missedPongs: Map<string, number> = new Map();
+  private _peerAccess: PeerAccessList;
+  private _peerAccessRepository: PeerAccessRepository;
+  private _peerRateLimiter: RateLimiter;
   private _peerRepository: PeerRepository;
-  private _pointsIntervals: Map<string, NodeJS.Timeout> = new Map();
   private _pongTimeouts: Map<string, NodeJS.Timeout> = new Map();
+  private _providerSelector: ProviderSelector;
   private _providerSessionRepository: ProviderSessionRepository;
+  private _requestQueue: RequestQueue;
+  private _rewardEngine: RewardEngine;
   private _sessionRepository: SessionRepository;
+  private _shuttingDown = false;
   private _swarm: Hyperswarm | null = null;
   private _webServer: WebServer;
 
   private readonly DURATION_UPDATE_INTERVAL = 60000;
 
-  private readonly MAX_MESSAGES_PER_MINUTE = 500;
   private _healthCheckTimeouts: Map<string, NodeJS.Timeout> = new Map();
   private readonly HEALTH_CHECK_TIMEOUT = 15000;
   private readonly HEALTH_CHECK_INTERVAL = 300000;
@@ -60,30 +105,76 @@ export class SymmetryServer {
     logger.info(`🔗 Initializing server using config file: ${configPath}`);
     this._config = new ServerConfig(configPath);
 
-    this._messageRepository = new MessageRepository();
     this._peerRepository = new PeerRepository();
     this._sessionRepository = new SessionRepository();
     this._providerSessionRepository = new ProviderSessionRepository();
+    this._peerAccessRepository = new PeerAccessRepository();
+    this._peerAccess = new PeerAccessList(this._peerAccessRepository, () =>
+      this.enforcePeerAccess()
+    );
+    this._requestQueue = new RequestQueue(
+      this._config.get("queueMaxDepth") ?? DEFAULT_QUEUE_MAX_DEPTH,
+      this._config.get("queueWaitTimeoutMs") ?? DEFAULT_QUEUE_WAIT_TIMEOUT_MS
+    );
+    const requestRepository = new RequestRepository();
+    const rewardRepository = new RewardRepository();
+    const metricRollupRepository = new MetricRollupRepository();
+    this._metricsRollup = new MetricsRollup(metricRollupRepository);
+    this._rewardEngine = new RewardEngine(
+      this._config,
+      rewardRepository,
+      requestRepository
+    );
+    this._providerSelector = new ProviderSelector(
+      this._config,
+      this._peerRepository,
+      this._inferences
+    );
 
     this._webServer = new WebServer(
       this._config,
+      this._inferences,
+      this._requestQueue,
       this._peerRepository,
+      this._providerSelector,
       this._providerSessionRepository,
-      this._messageRepository
+      this.createRateLimiter(),
+      new ApiKeyRepository(),
+      requestRepository,
+      rewardRepository,
+      this._rewardEngine,
+      metricRollupRepository
     );
 
-    this._messageRateLimitCache = new LRUCache<string, number>({
-      max: 10000,
-      ttl: 60 * 1000,
-    });
+    // Peer limits are checked for every swarm message, so they stay in memory.
+    // The swarm is never left unlimited by a list that only covers HTTP.
+    const isPeerRule = (rule: RateLimitRule) => rule.identity === "peer";
+    const peerRules = (this._config.get("rateLimits") ?? []).filter(isPeerRule);
+    this._peerRateLimiter = new RateLimiter(
+      peerRules.length ? peerRules : DEFAULT_RATE_LIMITS.filter(isPeerRule),
+      new MemoryRateLimitStore()
+    );
+  }
+
+  private createRateLimiter() {
+    const store =
+      this._config.get("rateLimitStore") === "sqlite"
+        ? new RateLimitRepository()
+        : new MemoryRateLimitStore();
+    return new RateLimiter(
+      this._config.get("rateLimits") ?? DEFAULT_RATE_LIMITS,
+      store
+    );
   }
 
   async init() {
+    await this._peerAccess.start();
     const swarm = new Hyperswarm({
       keyPair: {
         publicKey: Buffer.from(this._config.get("publicKey"), "hex"),
         secretKey: Buffer.from(this._config.get("privateKey"), "hex"),
       },
+      firewall: (remotePublicKey) => this.isFirewalled(remotePublicKey),
     });
     this._swarm = swarm;
     await this.resetAllPeersOnStartup();
@@ -93,16 +184,111 @@ export class SymmetryServer {
     const discovery = swarm.join(discoveryKey, { server: true });
     await discovery.flushed();
     swarm.on("connection", (peer: Peer) => {
+      if (this._shuttingDown) return peer.destroy();
       logger.info(peer.rawStream.remoteHost);
+      // The firewall only sees the key, so host bans are checked here.
+      const peerKey = peer.remotePublicKey.toString("hex");
+      const ban = this._peerAccess.getBan(peerKey, peer.rawStream.remoteHost);
+      if (ban) {
+        logger.warn(`⛔ Rejected banned peer ${describeAccessEntry(ban)}`);
+        return peer.destroy();
+      }
       this.listeners(peer);
     });
     this._webServer.initialise();
+    this._metricsRollup.start();
     logger.info(
       chalk.green(`\u2713  Symmetry server started, waiting for connections...`)
     );
     logger.info(chalk.green(`🔑 Public key: ${this._config.get("publicKey")}`));
   }
 
+  /**
+   * Stops taking new HTTP and swarm requests, lets in-flight completions
+   * finish up to `shutdownTimeoutMs`, tells providers the server is going
+   * away, ends their sessions and closes every connection and the database.
+   */
+  async shutdown() {
+    if (this._shuttingDown) return;
+    this._shuttingDown = true;
+
+    logger.info("🛑 Shutting down, draining in-flight requests...");
+
+    this._metricsRollup.stop();
+    this._peerAccess.stop();
+    await this._webServer.shutdown(
+      this._config.get("shutdownTimeoutMs") ?? DEFAULT_SHUTDOWN_TIMEOUT_MS
+    );
+
+    for (const [peerKey, peer] of this._connections) {
+      peer.write(createMessage(extendedServerMessageKeys.serverShutdown));
+      this.clearPeerTimers(peerKey);
+      await this._providerSessionRepository.updateSessionDuration(peerKey);
+      await this.endProviderSession(peerKey);
+    }
+    this._connections.clear();
+
+    for (const [peerKey, { since, timeout }] of this._disconnectedPeers) {
+      clearTimeout(timeout);
+      await this.endProviderSession(peerKey, since);
+    }
+
+    await this._peerRepository.resetAllPeerConnections();
+    await this._swarm?.destroy();
+    await closeDatabase();
+
+    logger.info(chalk.green("\u2713  Symmetry server stopped"));
+  }
+
+  private isFirewalled(remotePublicKey: Buffer) {
+    const peerKey = remotePublicKey.toString("hex");
+    const ban = this._peerAccess.getBan(peerKey);
+    if (ban) {
+      logger.warn(`⛔ Firewalled banned peer ${describeAccessEntry(ban)}`);
+    } else if (!this._peerAccess.isKeyAllowed(peerKey)) {
+      logger.warn(`⛔ Firewalled peer ${peerKey}, not on the allowlist`);
+    } else {
+      return false;
+    }
+    this._firewalledKeys.add(peerKey);
+    return true;
+  }
+
+  /**
+   * Applies the latest access lists: disconnects peers that are now banned or
+   * no longer allowed, and lifts the swarm's own ban on keys that may connect
+   * again, which would otherwise last until restart.
+   */
+  private enforcePeerAccess() {
+    for (const [peerKey, peer] of this._connections) {
+      const remoteHost = peer.rawStream.remoteHost;
+      const ban = this._peerAccess.getBan(peerKey, remoteHost);
+      if (ban) {
+        logger.warn(`⛔ Disconnecting banned peer ${describeAccessEntry(ban)}`);
+        peer.destroy();
+        continue;
+      }
+
+      // Only providers need to be on the allowlist, except where the
+      // firewall would refuse the key outright.
+      const isProvider = this._webServer.connectedPeers.has(peerKey);
+      if (
+        !this._peerAccess.isKeyAllowed(peerKey) ||
+        (isProvider && !this._peerAccess.isAllowed(peerKey, remoteHost))
+      ) {
+        logger.warn(`⛔ Disconnecting peer ${peerKey}, not on the allowlist`);
+        peer.destroy();
+      }
+    }
+
+    for (const peerKey of this._firewalledKeys) {
+      if (this._peerAccess.getBan(peerKey)) continue;
+      if (!this._peerAccess.isKeyAllowed(peerKey)) continue;
+      this._swarm?.peers.get(peerKey)?.ban(false);
+      this._firewalledKeys.delete(peerKey);
+    }
+  }
+
   private async resetAllPeersOnStartup() {
     try {
       logger.info("Resetting all peer connections on startup...");
@@ -111,7 +297,6 @@ export class SymmetryServer {
       this._webServer.connectedPeers.clear();
       this._heartbeatIntervals.clear();
       this._missedPongs.clear();
-      this._pointsIntervals.clear();
       this._pongTimeouts.clear();
       logger.info("Successfully reset all peer connections");
     } catch (error) {
@@ -121,11 +306,15 @@ export class SymmetryServer {
 
   listeners(peer: Peer) {
     const peerKey = peer.remotePublicKey.toString("hex");
+    const replacing = this._connections.has(peerKey);
 
-    this._providerSessionRepository.startSession(peerKey);
+    if (replacing) this.clearPeerTimers(peerKey);
+    this._connections.set(peerKey, peer);
+    this.startProviderSession(peerKey, replacing);
 
     const intervalId = setInterval(async () => {
       await this._providerSessionRepository.updateSessionDuration(peerKey);
+      await this._rewardEngine.rewardUptime(peerKey);
     }, this.DURATION_UPDATE_INTERVAL);
 
     this._durationIntervals.set(peerKey, intervalId);
@@ -139,59 +328,34 @@ export class SymmetryServer {
       await this.handlePeerError(peer, peerKey, err);
     });
 
-    peer.on("data", (message) => {
-      const currentCount = this._messageRateLimitCache.get(peerKey) || 0;
-
-      if (currentCount >= this.MAX_MESSAGES_PER_MINUTE) {
-        logger.warn(`Rate limit exceeded for messages from peer: ${peerKey}`);
-        logger.info(message);
-        return;
-      }
-
-      this._messageRateLimitCache.set(peerKey, currentCount + 1);
+    // Checks are chained so messages are still handled in arrival order.
+    let rateLimitCheck = Promise.resolve();
 
+    peer.on("data", (message) => {
       const data = safeParseJson<ClientMessage>(message.toString());
 
-      const httpReply = this._webServer.httpPeerReplies.get(peerKey);
-
-      if (httpReply && !httpReply.raw.closed && !data?.key)
-        return httpReply.raw.write(message);
-
-      if (data?.key === serverMessageKeys.inferenceEnded) {
-        if (httpReply) {
-          httpReply.raw.end();
-        }  
-      }
-
-      if (data && data.key) {
-        switch (data?.key) {
-          case serverMessageKeys.join:
-            return this.handleJoin(peer, data.data as PeerUpsert);
-          case serverMessageKeys.inference:
-            return this.handleInferenceRequest(
-              peer,
-              data.data as InferenceRequest
-            );
-          case serverMessageKeys.challenge:
-            return this.handleChallenge(peer, data.data as ChallengeRequest);
-          case serverMessageKeys.conectionSize:
-            return this.handleProviderConnections(
-              peer,
-              data.data as ConnectionSizeUpdate
-            );
-          case serverMessageKeys.sendMetrics:
-            return this.handleMetrics(peer, data.data as CompletionMetrics);
-          case serverMessageKeys.requestProvider:
-            return this.handleRequestProvider(
-              peer,
-              data.data as PeerSessionRequest
+      rateLimitCheck = rateLimitCheck
+        .then(async () => {
+          const rateLimit = await this._peerRateLimiter.hit(
+            "peer",
+            peerKey,
+            data?.key
+          );
+
+          if (rateLimit && !rateLimit.allowed) {
+            logger.warn(
+              `Rate limit exceeded for messages from peer: ${peerKey}`
             );
-          case serverMessageKeys.healthCheck:
-            return this.handleHealthCheck(peer);
-          case serverMessageKeys.verifySession:
-            return this.handleSessionValidation(peer, data.data as string);
-        }
-      }
+            serverMetrics.rateLimitRejections.inc({ identity: "peer" });
+            logger.info(message);
+            return;
+          }
+
+          this.handlePeerMessage(peer, peerKey, message, data);
+        })
+        .catch((error) =>
+          logger.error(`🚨 Failed to handle message from ${peerKey}:`, error)
+        );
     });
 
     process.on("uncaughtException", (err) => {
@@ -201,6 +365,73 @@ export class SymmetryServer {
     });
   }
 
+  private handlePeerMessage(
+    peer: Peer,
+    peerKey: string,
+    message: Buffer,
+    data: ClientMessage | undefined
+  ) {
+    if (!data?.key) {
+      return this._webServer.handleInferenceChunk(peerKey, message);
+    }
+
+    if (this._shuttingDown && NEW_WORK_KEYS.includes(data.key)) {
+      logger.warn(`Ignoring ${data.key} from ${peerKey} while shutting down`);
+      return;
+    }
+
+    if (data && data.key) {
+      switch (data?.key) {
+        case serverMessageKeys.join:
+          return this.handleJoin(peer, data.data as PeerUpsert);
+        case serverMessageKeys.inference:
+          return this.handleInferenceRequest(
+            peer,
+            data.data as InferenceRequest
+          );
+        case serverMessageKeys.challenge:
+          return this.handleChallenge(peer, data.data as ChallengeRequest);
+        case serverMessageKeys.conectionSize:
+          return this.handleProviderConnections(
+            peer,
+            data.data as ConnectionSizeUpdate
+          );
+        case serverMessageKeys.sendMetrics:
+          return this.handleMetrics(peer, data.data as CompletionMetrics);
+        case serverMessageKeys.requestProvider:
+          return this.handleRequestProvider(
+            peer,
+            data.data as PeerSessionRequest
+          );
+        case serverMessageKeys.healthCheck:
+          return this.handleHealthCheck(peer);
+        case serverMessageKeys.verifySession:
+          return this.handleSessionValidation(peer, data.data as string);
+        case extendedServerMessageKeys.inferenceChunk: {
+          const { requestId, chunk } = data.data as InferenceChunk;
+          return this._webServer.handleInferenceChunk(
+            peerKey,
+            chunk,
+            requestId
+          );
+        }
+        case serverMessageKeys.inferenceEnded:
+          return this._webServer.handleInferenceEnded(
+            peerKey,
+            data.data as string
+          );
+        case serverMessageKeys.inferenceError: {
+          const { requestId, error } = data.data as InferenceError;
+          return this._webServer.handleInferenceError(
+            peerKey,
+            error,
+            requestId
+          );
+        }
+      }
+    }
+  }
+
   private async handleHealthCheck(peer: Peer) {
     const peerKey = peer.remotePublicKey.toString("hex");
 
@@ -216,36 +447,122 @@ export class SymmetryServer {
   private async handlePeerError(peer: Peer, peerKey: string, error: Error) {
     logger.error(`Peer ${peerKey} error: ${error.message}`);
 
-    const reply = this._webServer.httpPeerReplies.get(peerKey);
-    if (reply && !reply.raw.closed) {
-      reply.raw.end(`data: {"error":"Peer error: ${error.message}"}\n\n`);
-    }
+    this._webServer.handleInferenceError(peerKey, error.message);
 
     if (this.isFatalError(error)) {
       await this.handlePeerDisconnect(peer, peerKey);
     }
   }
 
-  private async handlePeerDisconnect(peer: Peer, peerKey: string) {
+  /**
+   * Starts a session for a new connection. A provider reconnecting within the
+   * grace period resumes its session instead, and a connection replacing one
+   * that has not closed yet keeps it.
+   */
+  private async startProviderSession(peerKey: string, replacing: boolean) {
+    if (replacing) return;
+
+    const disconnected = this._disconnectedPeers.get(peerKey);
+
+    try {
+      if (!disconnected) {
+        await this._providerSessionRepository.startSession(peerKey);
+        return;
+      }
+
+      clearTimeout(disconnected.timeout);
+      this._disconnectedPeers.delete(peerKey);
+
+      const pausedMs = Date.now() - disconnected.since;
+      await this._providerSessionRepository.resumeSession(peerKey, pausedMs);
+
+      const provider = await this._peerRepository.getByKey(peerKey);
+      if (provider) {
+        await this._sessionRepository.extendProviderSessions(
+          provider.discovery_key,
+          new Date(disconnected.since),
+          pausedMs
+        );
+      }
+
+      logger.info(
+        `🔁 Peer reconnected after ${pausedMs}ms, resuming session: ${peerKey}`
+      );
+    } catch (error) {
+      logger.error(`Failed to start session for peer ${peerKey}:`, error);
+    }
+  }
+
+  private async endProviderSession(peerKey: string, endedAt?: number) {
+    this._disconnectedPeers.delete(peerKey);
+    await this._rewardEngine.rewardUptime(peerKey, 0);
+    await this._providerSessionRepository.endSession(peerKey, endedAt);
+  }
+
+  private clearPeerTimers(peerKey: string) {
     const heartbeat = this._heartbeatIntervals.get(peerKey);
     const pongTimeout = this._pongTimeouts.get(peerKey);
     const durationInterval = this._durationIntervals.get(peerKey);
+    const healthCheckTimeout = this._healthCheckTimeouts.get(peerKey);
 
     if (heartbeat) clearInterval(heartbeat);
     if (pongTimeout) clearTimeout(pongTimeout);
     if (durationInterval) clearInterval(durationInterval);
+    if (healthCheckTimeout) clearTimeout(healthCheckTimeout);
 
     this._heartbeatIntervals.delete(peerKey);
     this._pongTimeouts.delete(peerKey);
     this._durationIntervals.delete(peerKey);
+    this._healthCheckTimeouts.delete(peerKey);
     this._missedPongs.delete(peerKey);
+  }
 
-    await this._peerRepository.setPeerOffline(peerKey);
-    await this._providerSessionRepository.endSession(peerKey);
+  /**
+   * Takes the peer offline. Its in-flight inferences are retried elsewhere or
+   * failed straight away. Its session stays open for `reconnectGraceMs` in
+   * case it reconnects, and is then ended as of the disconnect. Events from a
+   * connection that has already been closed or replaced are ignored.
+   */
+  private async handlePeerDisconnect(peer: Peer, peerKey: string) {
+    if (this._connections.get(peerKey) !== peer) return;
+
+    this._connections.delete(peerKey);
+    this._webServer.connectedPeers.delete(peerKey);
+    this._inferences.forgetPeer(peerKey);
+    this._webServer.handleInferenceError(peerKey, "Provider disconnected");
+    this.clearPeerTimers(peerKey);
 
     logger.info(
       `🔌 Peer disconnected: ${peer.rawStream.remoteHost} / ${peerKey}`
     );
+
+    const graceMs =
+      this._config.get("reconnectGraceMs") ?? DEFAULT_RECONNECT_GRACE_MS;
+
+    // Recorded before anything is awaited, so a reconnect in the meantime
+    // resumes the session rather than starting a second one.
+    const since = Date.now();
+    const disconnected = {
+      since,
+      timeout:
+        graceMs > 0
+          ? setTimeout(() => this.endProviderSession(peerKey, since), graceMs)
+          : undefined,
+    };
+    this._disconnectedPeers.set(peerKey, disconnected);
+
+    await this._peerRepository.setPeerOffline(peerKey);
+    await this._providerSessionRepository.updateSessionDuration(peerKey);
+
+    if (this._disconnectedPeers.get(peerKey) !== disconnected) return;
+
+    if (this._connections.has(peerKey)) {
+      clearTimeout(disconnected.timeout);
+      this._disconnectedPeers.delete(peerKey);
+      return;
+    }
+
+    if (!disconnected.timeout) await this.endProviderSession(peerKey);
   }
 
   private isFatalError(error: Error): boolean {
@@ -259,6 +576,18 @@ export class SymmetryServer {
 
   handleMetrics = async (peer: Peer, data: CompletionMetrics) => {
     const peerKey = peer.remotePublicKey.toString("hex");
+    const requestId = this._webServer.handleInferenceMetrics(peerKey, data);
+
+    serverMetrics.providerCompletions.inc({ provider: peerKey });
+    serverMetrics.providerTokens.inc(
+      { provider: peerKey },
+      data.state.totalTokens || 0
+    );
+    serverMetrics.providerTokensPerSecond.observe(
+      { provider: peerKey },
+      data.state.averageTokensPerSecond || 0
+    );
+
     const sessionId = await this._providerSessionRepository.getActiveSessionId(
       peerKey
     );
@@ -273,12 +602,14 @@ export class SymmetryServer {
       averageTokenLength: data.state.averageTokenLength,
       startTime: data.state.startTime,
       totalTokens: data.state.totalTokens,
+      requestId,
     });
   };
 
   async handleProviderConnections(peer: Peer, update: ConnectionSizeUpdate) {
     const peerKey = peer.remotePublicKey.toString("hex");
-    this._peerRepository.updateConnections(update.connections, peerKey);
+    await this._peerRepository.updateConnections(update.connections, peerKey);
+    await this._requestQueue.drain();
   }
 
   async handleInferenceRequest(peer: Peer, data: InferenceRequest) {
@@ -297,6 +628,15 @@ export class SymmetryServer {
 
   async handleJoin(peer: Peer, message: PeerUpsert) {
     const peerKey = peer.remotePublicKey.toString("hex");
+    const remoteHost = peer.rawStream.remoteHost;
+
+    if (this._peerAccess.getBan(peerKey, remoteHost)) {
+      return this.rejectJoin(peer, "banned");
+    }
+
+    if (!this._peerAccess.isAllowed(peerKey, remoteHost)) {
+      return this.rejectJoin(peer, "not_allowed");
+    }
 
     const { symmetryCoreVersion } = message;
 
@@ -309,22 +649,40 @@ export class SymmetryServer {
           minVersion: MIN_SUPPORTED_SYMMETRY_CORE_VERSION,
         })
       );
+      await this.recordJoinRejection(peer, "version_mismatch");
       return;
     }
 
+    const rejection = verifyJoin(
+      message,
+      peer.remotePublicKey,
+      this._config.get("publicKey"),
+      this._config.get("requireSignedJoin") ?? false
+    );
+
+    if (rejection) return this.rejectJoin(peer, rejection);
+
+    const models = parsePeerModels(message);
+
+    if (typeof models === "string") {
+      return this.rejectJoin(peer, "invalid_models", models);
+    }
+
     try {
-      await this._peerRepository.upsert({
-        key: peerKey,
-        discoveryKey: message.discoveryKey,
-        dataCollectionEnabled: message.dataCollectionEnabled,
-        modelName: message.modelName,
-        public: message.public,
-        serverKey: message.serverKey,
-        maxConnections: message.maxConnections,
-        name: message.name,
-        website: message.website,
-        apiProvider: message.apiProvider,
-      });
+      await this._peerRepository.upsert(
+        {
+          key: peerKey,
+          discoveryKey: message.discoveryKey,
+          dataCollectionEnabled: message.dataCollectionEnabled,
+          public: message.public,
+          serverKey: message.serverKey,
+          maxConnections: message.maxConnections,
+          name: message.name,
+          website: message.website,
+          apiProvider: message.apiProvider,
+        },
+        models
+      );
       logger.info(
         `👋 Peer provider joined ${peer.rawStream.remoteHost} / ${peerKey}`
       );
@@ -337,6 +695,9 @@ export class SymmetryServer {
       this._webServer.connectedPeers.set(peerKey, peer);
 
       this.startHealthCheck(peer);
+      for (const model of models) {
+        await this._requestQueue.drain(model.name);
+      }
     } catch (error: unknown) {
       let errorMessage = "";
       if (error instanceof Error) errorMessage = error.message;
@@ -344,6 +705,39 @@ export class SymmetryServer {
     }
   }
 
+  /**
+   * Tells the peer why its join was refused and disconnects it.
+   */
+  private async rejectJoin(
+    peer: Peer,
+    reason: JoinRejectionReason,
+    message = JOIN_REJECTION_MESSAGES[reason]
+  ) {
+    peer.write(
+      createMessage(extendedServerMessageKeys.joinRejected, { reason, message })
+    );
+    setTimeout(() => peer.destroy(), JOIN_REJECTION_CLOSE_DELAY_MS);
+    await this.recordJoinRejection(peer, reason);
+  }
+
+  private async recordJoinRejection(peer: Peer, reason: JoinRejectionReason) {
+    const peerKey = peer.remotePublicKey.toString("hex");
+    const remoteHost = peer.rawStream.remoteHost;
+
+    logger.warn(`⛔ Rejected join from ${remoteHost} / ${peerKey}: ${reason}`);
+    serverMetrics.joinRejections.inc({ reason });
+
+    try {
+      await this._peerAccessRepository.recordJoinRejection(
+        peerKey,
+        remoteHost,
+        reason
+      );
+    } catch (error) {
+      logger.error(`🚨 Failed to record join rejection: ${error}`);
+    }
+  }
+
   getKeys(privateKeyHex: string) {
     const fullKey = Buffer.from(privateKeyHex, "hex");
     if (fullKey.length !== 64) {
@@ -396,49 +790,63 @@ export class SymmetryServer {
     }
   }
 
-  async getRandomPeer(randomPeerRequest: PeerSessionRequest) {
-    const providerPeer = await this._peerRepository.getRandom(
-      randomPeerRequest
+  async getRandomPeer(peer: Peer, randomPeerRequest: PeerSessionRequest) {
+    const peerKey = peer.remotePublicKey.toString("hex");
+    const sessionProviderKey = await this.getSessionProviderKey(
+      randomPeerRequest.sessionToken
+    );
+    const providerPeer = await this._providerSelector.select(
+      {
+        ...randomPeerRequest,
+        preferredProviderId:
+          randomPeerRequest.preferredProviderId || sessionProviderKey,
+      },
+      peerKey
     );
     return providerPeer;
   }
 
+  private async getSessionProviderKey(sessionToken?: string) {
+    if (!sessionToken || !this._config.get("stickyRouting")) return undefined;
+
+    const providerDiscoveryKey = await this._sessionRepository.verifySession(
+      sessionToken
+    );
+
+    if (!providerDiscoveryKey) return undefined;
+
+    const providerPeer = await this._peerRepository.getByDiscoveryKey(
+      providerDiscoveryKey
+    );
+
+    return providerPeer?.key;
+  }
+
   async handleRequestProvider(
     peer: Peer,
     randomPeerRequest: PeerSessionRequest,
     attempts = 0
   ) {
     try {
-      if (attempts > MAX_RANDOM_PEER_REQUEST_ATTEMPTS) return;
-
-      const providerPeer = await this.getRandomPeer(randomPeerRequest);
+      const maxAttempts =
+        this._config.get("maxProviderAttempts") ??
+        MAX_RANDOM_PEER_REQUEST_ATTEMPTS;
 
-      if (!providerPeer) {
-        this.handleRequestProvider(peer, randomPeerRequest, attempts + 1);
+      if (attempts > maxAttempts) {
+        logger.warn(
+          `🚨 No providers found for ${peer.remotePublicKey.toString("hex")}`
+        );
         return;
       }
 
-      const currentConnections = providerPeer.connections || 0;
-      const maxConnections = providerPeer.max_connections;
+      if (await this.sendProviderDetails(peer, randomPeerRequest)) return;
 
-      if (currentConnections >= maxConnections) return;
-
-      if (!providerPeer) {
-        logger.warn(
-          `🚨 No providers found for ${peer.remotePublicKey.toString("hex")}`
-        );
+      if (await this._providerSelector.isSaturated(randomPeerRequest)) {
+        this.enqueueProviderRequest(peer, randomPeerRequest);
         return;
       }
 
-      const sessionToken = await this._sessionRepository.createSession(
-        providerPeer.discovery_key
-      );
-      peer.write(
-        createMessage(serverMessageKeys.providerDetails, {
-          providerId: providerPeer.key,
-          sessionToken,
-        })
-      );
+      this.handleRequestProvider(peer, randomPeerRequest, attempts + 1);
     } catch (error: unknown) {
       let errorMessage = "";
       if (error instanceof Error) errorMessage = error.message;
@@ -446,6 +854,43 @@ export class SymmetryServer {
     }
   }
 
+  private async sendProviderDetails(
+    peer: Peer,
+    randomPeerRequest: PeerSessionRequest
+  ): Promise<boolean> {
+    const providerPeer = await this.getRandomPeer(peer, randomPeerRequest);
+
+    if (!providerPeer) return false;
+
+    const sessionToken = await this._sessionRepository.createSession(
+      providerPeer.discovery_key
+    );
+    peer.write(
+      createMessage(serverMessageKeys.providerDetails, {
+        providerId: providerPeer.key,
+        sessionToken,
+      })
+    );
+    return true;
+  }
+
+  private enqueueProviderRequest(
+    peer: Peer,
+    randomPeerRequest: PeerSessionRequest
+  ) {
+    const peerKey = peer.remotePublicKey.toString("hex");
+    const queued = this._requestQueue.enqueue({
+      id: cryptoLib.randomUUID(),
+      modelName: randomPeerRequest.modelName,
+      tryDispatch: async () =>
+        !peer.writable || this.sendProviderDetails(peer, randomPeerRequest),
+      onTimeout: () =>
+        logger.warn(`🕛 Timed out waiting for a provider for ${peerKey}`),
+    });
+
+    if (!queued) logger.warn(`🚨 Provider queue full for ${peerKey}`);
+  }
+
   async handleSessionValidation(peer: Peer, sessionToken: string) {
     if (!sessionToken) return;
     try {
@@ -461,10 +906,13 @@ export class SymmetryServer {
 
       if (!providerPeer) return;
 
+      const models = await this._peerRepository.getPeerModels(providerPeer.key);
+
       peer.write(
         createMessage(serverMessageKeys.sessionValid, {
           discoveryKey: providerPeer.discovery_key,
           modelName: providerPeer.model_name,
+          models,
           name: providerPeer.name,
           provider: providerPeer.provider,
         })
@@ -499,6 +947,8 @@ export class SymmetryServer {
 
       const timeout = setTimeout(() => {
         logger.warn(`Health check timeout for peer: ${peerKey}`);
+        serverMetrics.healthCheckTimeouts.inc();
+        this._rewardEngine.penalizeHealthCheckFailure(peerKey);
         this.handlePeerDisconnect(peer, peerKey);
       }, this.HEALTH_CHECK_TIMEOUT);
 
@@ -59,6 +59,24 @@ export class SessionRepository extends BaseRepository {
     return session.providerId;
   }
 
+  /**
+   * Pushes back the expiry of a provider's sessions that were still valid at
+   * `since` by `ms`, so time the provider spent reconnecting does not use
+   * them up.
+   */
+  async extendProviderSessions(
+    providerId: string,
+    since: Date,
+    ms: number
+  ): Promise<number> {
+    return this.runQuery(
+      `UPDATE sessions
+       SET expires_at = strftime('%Y-%m-%dT%H:%M:%fZ', expires_at, '+' || ? || ' seconds')
+       WHERE provider_id = ? AND expires_at >= ?`,
+      [ms / 1000, providerId, since.toISOString()]
+    );
+  }
+
   async extendSession(sessionId: string): Promise<boolean> {
     const session = await this.getQuery<Session>(
       `SELECT id, provider_id as providerId, created_at as createdAt, expires_at as expiresAt
@@ -0,0 +1,152 @@
+import { StringDecoder } from "node:string_decoder";
+import { apiProviders, safeParseJson } from "symmetry-core";
+
+import { CompletionDelta, ToolCallDelta } from "./types";
+
+interface OllamaToolCall {
+  function?: { name?: string; arguments?: unknown };
+}
+
+interface OllamaChunk {
+  message?: { content?: string; tool_calls?: OllamaToolCall[] };
+  response?: string;
+  done?: boolean;
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+interface OpenAIChunk {
+  choices?: {
+    delta?: { content?: string | null; tool_calls?: ToolCallDelta[] };
+    text?: string;
+    finish_reason?: string | null;
+  }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+// Every line Ollama streams starts with the model name.
+const OLLAMA_FRAME_PREFIX = '{"model":';
+
+const isOllamaChunk = (chunk: OllamaChunk) =>
+  "message" in chunk || "response" in chunk || "done" in chunk;
+
+/**
+ * Turns the bytes a provider streams back into completion deltas. Providers
+ * running a current symmetry-core send plain text tokens; older ones relay
+ * their backend's wire format, which is recognised by `apiProvider`: NDJSON
+ * for Ollama and OpenAI-style SSE for everything else. Anything that does not
+ * parse is treated as text, so tokens are never dropped.
+ */
+export class StreamNormalizer {
+  private _buffer = "";
+  private _decoder = new StringDecoder("utf8");
+  private _format: "ndjson" | "sse";
+
+  constructor(apiProvider?: string) {
+    this._format = apiProvider === apiProviders.Ollama ? "ndjson" : "sse";
+  }
+
+  push(data: Buffer | string): CompletionDelta[] {
+    const chunk = typeof data === "string" ? data : this._decoder.write(data);
+    if (!chunk) return [];
+    if (!this._buffer && !this.isFramed(chunk)) return [{ content: chunk }];
+
+    this._buffer += chunk;
+    const lines = this._buffer.split("\n");
+    this._buffer = lines.pop() || "";
+
+    const deltas = lines.flatMap((line) => this.parseLine(line));
+
+    if (this._buffer && !this.isFramed(this._buffer)) {
+      deltas.push({ content: this._buffer });
+      this._buffer = "";
+    }
+
+    return deltas;
+  }
+
+  flush(): CompletionDelta[] {
+    const rest = this._buffer + this._decoder.end();
+    this._buffer = "";
+    if (!rest) return [];
+    const deltas = this.parseLine(rest);
+    return deltas.length ? deltas : [{ content: rest }];
+  }
+
+  // Output that may still turn out to be a frame is held back until its line
+  // is complete; anything else is text.
+  private isFramed(chunk: string) {
+    return this._format === "ndjson"
+      ? chunk.startsWith(OLLAMA_FRAME_PREFIX) ||
+          OLLAMA_FRAME_PREFIX.startsWith(chunk)
+      : chunk.startsWith("data:");
+  }
+
+  private parseLine(line: string): CompletionDelta[] {
+    const trimmed = line.trim();
+    if (!trimmed) return [];
+
+    if (this._format === "ndjson") {
+      const parsed = safeParseJson<OllamaChunk>(trimmed);
+      if (!parsed || typeof parsed !== "object" || !isOllamaChunk(parsed)) {
+        return [{ content: line }];
+      }
+      return [this.fromOllama(parsed)];
+    }
+
+    if (/^(:|event:|id:|retry:)/.test(trimmed)) return [];
+    if (!trimmed.startsWith("data:")) return [{ content: line }];
+
+    const payload = trimmed.slice("data:".length).trim();
+    if (payload === "[DONE]") return [];
+
+    const parsed = safeParseJson<OpenAIChunk>(payload);
+    if (!parsed || typeof parsed !== "object") return [{ content: line }];
+    return [this.fromOpenAI(parsed)];
+  }
+
+  private fromOllama(chunk: OllamaChunk): CompletionDelta {
+    const delta: CompletionDelta = {
+      content: chunk.message?.content ?? chunk.response,
+      tool_calls: chunk.message?.tool_calls?.map((toolCall, index) => ({
+        index,
+        id: `call_${index}`,
+        type: "function",
+        function: {
+          name: toolCall.function?.name,
+          arguments: JSON.stringify(toolCall.function?.arguments ?? {}),
+        },
+      })),
+    };
+
+    if (chunk.done) {
+      delta.finish_reason = chunk.done_reason || "stop";
+      delta.usage = {
+        prompt_tokens: chunk.prompt_eval_count || 0,
+        completion_tokens: chunk.eval_count || 0,
+      };
+    }
+
+    return delta;
+  }
+
+  private fromOpenAI(chunk: OpenAIChunk): CompletionDelta {
+    const choice = chunk.choices?.[0];
+    const delta: CompletionDelta = {
+      content: choice?.delta?.content ?? choice?.text,
+      tool_calls: choice?.delta?.tool_calls,
+    };
+
+    if (choice?.finish_reason) delta.finish_reason = choice.finish_reason;
+
+    if (chunk.usage) {
+      delta.usage = {
+        prompt_tokens: chunk.usage.prompt_tokens || 0,
+        completion_tokens: chunk.usage.completion_tokens || 0,
+      };
+    }
+
+    return delta;
+  }
+}
@@ -3,6 +3,14 @@ import { Command } from "commander";
 import os from "os";
 import path from "path";
 import { SymmetryServer } from "./server";
+import { ApiKeyRepository } from "./api-key-repository";
+import { parseLeaderboardQuery } from "./leaderboard";
+import { parsePeerAccessInput, parsePeerAccessValue } from "./peer-access";
+import { PeerAccessRepository } from "./peer-access-repository";
+import { RequestRepository } from "./request-repository";
+import { RewardRepository } from "./reward-repository";
+import { PeerAccessListType } from "./types";
+import { parseUsageQuery } from "./usage";
 
 const program = new Command();
 const defaultConfig = path.join(os.homedir(), ".config", "symmetry", "server.yaml");
@@ -23,6 +31,19 @@ program
   .action(async () => {
     const server = createServer(program.opts().config);
     await server.init();
+
+    // A second signal falls through to the default handler and exits at once.
+    for (const signal of ["SIGINT", "SIGTERM"]) {
+      process.once(signal, async () => {
+        try {
+          await server.shutdown();
+          process.exit(0);
+        } catch (error) {
+          console.error(`Error shutting down: ${error}`);
+          process.exit(1);
+        }
+      });
+    }
   });
 
 program
@@ -43,4 +64,239 @@ program
     }
   });
 
+program
+  .command("create-key <name>")
+  .description("Create a client API key")
+  .option("--rpm <requests>", "Requests allowed per minute", Number)
+  .option("--daily-tokens <tokens>", "Tokens allowed per day", Number)
+  .option("--models <models>", "Comma separated models the key may use")
+  .action(async (name, options) => {
+    try {
+      const key = await new ApiKeyRepository().create(name, {
+        requestsPerMinute: options.rpm,
+        dailyTokenQuota: options.dailyTokens,
+        allowedModels: options.models?.split(",").map((m: string) => m.trim()),
+      });
+      console.log(`API key created for ${name}, it will not be shown again:`);
+      console.log(key);
+    } catch (error) {
+      console.error(`Error creating API key: ${error}`);
+    } finally {
+      process.exit(0);
+    }
+  });
+
+program
+  .command("list-keys")
+  .description("List client API keys")
+  .action(async () => {
+    try {
+      const keys = await new ApiKeyRepository().list();
+      console.table(
+        keys.map((key) => ({
+          id: key.id,
+          name: key.name,
+          key: `${key.key_prefix}...`,
+          rpm: key.requests_per_minute ?? "-",
+          dailyTokens: key.daily_token_quota ?? "-",
+          tokensToday: key.tokens_today,
+          models: key.allowed_models?.join(",") ?? "*",
+          lastUsed: key.last_used_at ?? "-",
+          revoked: key.revoked_at ?? "-",
+        }))
+      );
+    } catch (error) {
+      console.error(`Error listing API keys: ${error}`);
+    } finally {
+      process.exit(0);
+    }
+  });
+
+program
+  .command("revoke-key <id>")
+  .description("Revoke a client API key")
+  .action(async (id) => {
+    try {
+      const result = await new ApiKeyRepository().revoke(Number(id));
+      console.log(result
+        ? `API key ${id} revoked`
+        : `No active API key found with id ${id}`);
+    } catch (error) {
+      console.error(`Error revoking API key: ${error}`);
+    } finally {
+      process.exit(0);
+    }
+  });
+
+program
+  .command("usage")
+  .description("Report requests and tokens used by clients")
+  .option("--from <date>", "Start of the report, defaults to 30 days ago")
+  .option("--to <date>", "End of the report, defaults to now")
+  .option("--group-by <groups>", "Comma separated: day, model, provider, client", "day,client")
+  .option("--key <id>", "Only requests made with this API key", Number)
+  .option("--ip <address>", "Only requests from this IP address")
+  .action(async (options) => {
+    try {
+      const query = parseUsageQuery({
+        from: options.from,
+        to: options.to,
+        group_by: options.groupBy,
+      });
+
+      if (typeof query === "string") {
+        console.error(query);
+        return;
+      }
+
+      const rows = await new RequestRepository().getUsage({
+        ...query,
+        apiKeyId: options.key,
+        clientIp: options.ip,
+      });
+      console.log(`Usage from ${query.from} to ${query.to}`);
+      console.table(rows);
+    } catch (error) {
+      console.error(`Error reading usage: ${error}`);
+    } finally {
+      process.exit(0);
+    }
+  });
+
+program
+  .command("leaderboard")
+  .description("Rank providers by points earned")
+  .option("--period <period>", "day, week, month or all", "week")
+  .option("--limit <count>", "Number of providers to show, defaults to 20")
+  .action(async (options) => {
+    try {
+      const query = parseLeaderboardQuery(options);
+
+      if (typeof query === "string") {
+        console.error(query);
+        return;
+      }
+
+      const rows = await new RewardRepository().getLeaderboard(
+        query.limit,
+        query.days
+      );
+      console.log(`Leaderboard for ${query.period}`);
+      console.table(rows);
+    } catch (error) {
+      console.error(`Error reading leaderboard: ${error}`);
+    } finally {
+      process.exit(0);
+    }
+  });
+
+const addPeerAccess = async (
+  list: PeerAccessListType,
+  peer: string,
+  options: { reason?: string; expires?: string }
+) => {
+  try {
+    const entry = parsePeerAccessInput({ value: peer, ...options });
+
+    if (typeof entry === "string") {
+      console.error(entry);
+      return;
+    }
+
+    await new PeerAccessRepository().add({ list, ...entry });
+    console.log(
+      `Added ${entry.value} to the ${list} list` +
+        (entry.expiresAt ? ` until ${entry.expiresAt} UTC` : "")
+    );
+  } catch (error) {
+    console.error(`Error updating the ${list} list: ${error}`);
+  } finally {
+    process.exit(0);
+  }
+};
+
+const removePeerAccess = async (list: PeerAccessListType, peer: string) => {
+  try {
+    const entry = parsePeerAccessValue(peer);
+
+    if (typeof entry === "string") {
+      console.error(entry);
+      return;
+    }
+
+    const result = await new PeerAccessRepository().remove(list, entry.value);
+    console.log(result
+      ? `Removed ${entry.value} from the ${list} list`
+      : `${entry.value} is not on the ${list} list`);
+  } catch (error) {
+    console.error(`Error updating the ${list} list: ${error}`);
+  } finally {
+    process.exit(0);
+  }
+};
+
+program
+  .command("ban <peer>")
+  .description("Ban a provider by peer key or IP address")
+  .option("--reason <reason>", "Why the provider is banned")
+  .option("--expires <expiry>", "Duration such as 12h or 7d, or a date")
+  .action((peer, options) => addPeerAccess("ban", peer, options));
+
+program
+  .command("unban <peer>")
+  .description("Lift a ban on a peer key or IP address")
+  .action((peer) => removePeerAccess("ban", peer));
+
+program
+  .command("allow <peer>")
+  .description("Add a peer key or IP address to the provider allowlist")
+  .option("--reason <reason>", "Why the provider is allowed")
+  .option("--expires <expiry>", "Duration such as 12h or 7d, or a date")
+  .action((peer, options) => addPeerAccess("allow", peer, options));
+
+program
+  .command("disallow <peer>")
+  .description("Remove a peer key or IP address from the provider allowlist")
+  .action((peer) => removePeerAccess("allow", peer));
+
+program
+  .command("list-access")
+  .description("List active provider bans and allowlist entries")
+  .action(async () => {
+    try {
+      const entries = await new PeerAccessRepository().getActive();
+      console.table(
+        entries.map((entry) => ({
+          list: entry.list,
+          target: entry.target,
+          value: entry.value,
+          reason: entry.reason ?? "-",
+          expires: entry.expires_at ?? "never",
+          created: entry.created_at,
+        }))
+      );
+    } catch (error) {
+      console.error(`Error listing peer access: ${error}`);
+    } finally {
+      process.exit(0);
+    }
+  });
+
+program
+  .command("join-rejections")
+  .description("List rejected provider joins per peer and reason")
+  .option("--limit <count>", "Number of rows to show", "50")
+  .action(async (options) => {
+    try {
+      const rows = await new PeerAccessRepository().getJoinRejections(
+        Number(options.limit)
+      );
+      console.table(rows);
+    } catch (error) {
+      console.error(`Error listing join rejections: ${error}`);
+    } finally {
+      process.exit(0);
+    }
+  });
+
 program.parse(process.argv);
\ No newline at end of file
@@ -0,0 +1,55 @@
+import {
+  DEFAULT_TIMESERIES_BUCKETS,
+  ROLLUP_BUCKETS,
+  ROLLUP_DIMENSIONS,
+} from "./constants";
+import { RollupBucket, RollupDimension, TimeSeriesQuery } from "./types";
+
+export interface TimeSeriesParams {
+  bucket?: string;
+  dimension?: string;
+  id?: string;
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Reads the bucket size, dimension and range of `GET /v1/timeseries`. The
+ * range defaults to the last 24 buckets, and is widened to whole buckets so
+ * the first and last are not cut off. Returns an error message when a value
+ * is invalid.
+ */
+export const parseTimeSeriesQuery = (
+  params: TimeSeriesParams
+): TimeSeriesQuery | string => {
+  const bucket = (params.bucket ?? "hour") as RollupBucket;
+  const dimension = (params.dimension ?? "model") as RollupDimension;
+  const buckets = Object.keys(ROLLUP_BUCKETS);
+
+  if (!buckets.includes(bucket)) {
+    return `Invalid bucket: ${bucket}, expected one of ${buckets.join(", ")}`;
+  }
+
+  if (!ROLLUP_DIMENSIONS.includes(dimension)) {
+    return `Invalid dimension: ${dimension}, expected one of ${ROLLUP_DIMENSIONS.join(
+      ", "
+    )}`;
+  }
+
+  const bucketMs = ROLLUP_BUCKETS[bucket];
+  const to = params.to ? Date.parse(params.to) : Date.now();
+  const from = params.from
+    ? Date.parse(params.from)
+    : to - DEFAULT_TIMESERIES_BUCKETS * bucketMs;
+
+  if (Number.isNaN(from)) return `Invalid from date: ${params.from}`;
+  if (Number.isNaN(to)) return `Invalid to date: ${params.to}`;
+
+  return {
+    bucket,
+    dimension,
+    value: params.id || undefined,
+    from: new Date(Math.floor(from / bucketMs) * bucketMs).toISOString(),
+    to: new Date(Math.ceil(to / bucketMs) * bucketMs).toISOString(),
+  };
+};
@@ -1,4 +1,9 @@
-import { StreamMetrics } from "symmetry-core";
+import { InferenceRequest, StreamMetrics } from "symmetry-core";
+
+import { extendedServerMessageKeys } from "./constants";
+import { CompletionParameters } from "./openai";
+
+export type ExtendedServerMessageKey = keyof typeof extendedServerMessageKeys;
 
 export interface Config {
   allowedOrigins: string[]
@@ -6,8 +11,31 @@ export interface Config {
   privateKey: string;
   publicKey: string;
   apiPort: number;
+  providerSelectionStrategy?: ProviderSelectionStrategy;
+  stickyRouting?: boolean;
+  stickyRoutingTtlMinutes?: number;
+  maxProviderAttempts?: number;
+  firstTokenTimeoutMs?: number;
+  idleStreamTimeoutMs?: number;
+  reselectOnTimeout?: boolean;
+  queueMaxDepth?: number;
+  queueWaitTimeoutMs?: number;
+  reconnectGraceMs?: number;
+  shutdownTimeoutMs?: number;
+  requireApiKeys?: boolean;
+  requireSignedJoin?: boolean;
+  rateLimits?: RateLimitRule[];
+  rateLimitStore?: RateLimitStoreType;
+  trustedProxies?: string[];
+  rewards?: Partial<RewardWeights>;
 }
 
+export type ProviderSelectionStrategy =
+  | "random"
+  | "weighted"
+  | "least-connections"
+  | "fastest";
+
 export interface ClientMessage<T = unknown> {
   key: string;
   data?: T;
@@ -23,6 +51,7 @@ export interface Session {
 export interface PeerSessionRequest {
   modelName: string;
   preferredProviderId?: string;
+  sessionToken?: string;
 }
 
 export interface ChallengeRequest extends Session {
@@ -39,7 +68,9 @@ export interface PeerUpsert {
   key: string;
   discoveryKey: string;
   dataCollectionEnabled: boolean;
+  /** @deprecated Single model shape, use `models`. */
   modelName?: string;
+  models?: PeerModel[];
   public?: boolean;
   serverKey?: string;
   maxConnections: number;
@@ -47,6 +78,19 @@ export interface PeerUpsert {
   website: string;
   apiProvider: string;
   symmetryCoreVersion?: string;
+  /** Hex ed25519 signature of the other fields by the peer's key. */
+  signature?: string;
+}
+
+export interface PeerModel {
+  name: string;
+  /** Concurrent requests for this model, within the provider's own limit. */
+  maxConnections?: number;
+}
+
+export interface ProviderModel {
+  model_name: string;
+  max_connections: number | null;
 }
 
 export interface DbPeer {
@@ -67,30 +111,244 @@ export interface DbPeer {
   points?: number;
 }
 
+export interface ProviderCandidate extends DbPeer {
+  recent_tokens_per_second: number;
+  model_max_connections: number | null;
+  /** In-flight requests for the selected model, counted in memory. */
+  model_connections?: number;
+}
+
+export interface ServerInferenceRequest
+  extends InferenceRequest,
+    CompletionParameters {
+  requestId: string;
+  /** The model the provider must serve the request with. */
+  model: string;
+}
+
+export interface InferenceChunk {
+  requestId: string;
+  chunk: string;
+}
+
+export interface InferenceError {
+  requestId: string;
+  error: string;
+}
+
+export type ProviderSort = "uptime" | "tokens_per_second" | "requests";
+
+export interface ProviderCursor {
+  sort: ProviderSort;
+  value: number;
+  key: string;
+}
+
+export interface ProviderQuery {
+  model?: string;
+  online?: boolean;
+  public?: boolean;
+  dataCollection?: boolean;
+  provider?: string;
+  sort: ProviderSort;
+  order: "asc" | "desc";
+  limit: number;
+  cursor?: ProviderCursor;
+}
+
+export interface ProviderSummary {
+  id: number;
+  key: string;
+  data_collection_enabled: boolean;
+  max_connections: number;
+  connections: number;
+  model_name: string | null;
+  models: ProviderModel[];
+  name: string;
+  online: boolean;
+  public: boolean;
+  provider: string;
+  duration_minutes: number;
+  total_sessions: number;
+  total_requests: number;
+  active_sessions: number;
+  avg_tokens_per_second: number;
+  avg_token_length: number;
+  total_tokens: number;
+  total_bytes: number;
+  total_process_time: number;
+}
+
+export interface ProviderSessionSummary {
+  start_time: string;
+  end_time: string | null;
+  duration_minutes: number | null;
+  completed_requests: number;
+  cancelled_requests: number;
+  timed_out_requests: number;
+}
+
+export interface ProviderDetail extends ProviderSummary {
+  website: string | null;
+  created_at: string;
+  completed_requests: number;
+  cancelled_requests: number;
+  timed_out_requests: number;
+  points: number;
+  recent_sessions: ProviderSessionSummary[];
+}
+
+export interface ModelSummary {
+  model_name: string;
+  provider_count: number;
+  free_capacity: number;
+  average_tokens_per_second: number;
+  created: number;
+}
+
+export interface CompletionUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+}
+
+export interface ToolCallDelta {
+  index?: number;
+  id?: string;
+  type?: "function";
+  function?: { name?: string; arguments?: string };
+}
+
+export interface ToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+export interface CompletionDelta {
+  content?: string;
+  tool_calls?: ToolCallDelta[];
+  finish_reason?: string;
+  usage?: CompletionUsage;
+}
+
 export interface ConnectionSizeUpdate {
   connections: number;
 }
 
-export interface PeerReward {
+export interface RewardWeights {
+  uptimeMinute: number;
+  completion: number;
+  thousandTokens: number;
+  healthCheckFailure: number;
+}
+
+export type RewardReason = "uptime" | "completion" | "health_check_failure";
+
+export type LeaderboardPeriod = "day" | "week" | "month" | "all";
+
+export interface LeaderboardEntry {
   peer_key: string;
+  name: string | null;
   points: number;
-  total_connection_time: number;
-  last_points_update: Date;
+  uptime_minutes: number;
+  completions: number;
+  tokens: number;
+  health_check_failures: number;
 }
 
-export interface PeerConnection {
-  peer_key: string;
-  connected_at: Date;
-  disconnected_at?: Date;
-  points_earned: number;
+export type RateLimitIdentity = "ip" | "apiKey" | "peer";
+
+export type RateLimitStoreType = "memory" | "sqlite";
+
+export interface RateLimitRule {
+  /** HTTP route, or swarm message key for peers. Omit to match all. */
+  route?: string;
+  identity: RateLimitIdentity;
+  limit: number;
+  windowSeconds: number;
 }
 
-export interface IpMessageRow {
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetSeconds: number;
+  retryAfterSeconds: number;
+}
+
+export interface ApiKeyRow {
   id: number;
-  ip_address: string;
-  message_count: number;
-  first_seen: string;
-  last_seen: string;
+  name: string;
+  key_prefix: string;
+  requests_per_minute: number | null;
+  daily_token_quota: number | null;
+  allowed_models: string | null;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+export interface ApiKey extends Omit<ApiKeyRow, "allowed_models"> {
+  allowed_models: string[] | null;
+  tokens_today: number;
+}
+
+export interface ApiKeyOptions {
+  requestsPerMinute?: number;
+  dailyTokenQuota?: number;
+  allowedModels?: string[];
+}
+
+export interface RequestClient {
+  ip: string;
+  apiKey?: ApiKey;
+}
+
+export type RequestOutcome = "completed" | "cancelled" | "timed_out";
+
+export type RequestResult = RequestOutcome | "failed";
+
+export interface RequestRecord {
+  id: string;
+  apiKeyId?: number;
+  clientIp: string;
+  modelName: string;
+  peerKey?: string;
+  startedAt: number;
+  endedAt: number;
+  timeToFirstTokenMs?: number;
+  promptTokens: number;
+  completionTokens: number;
+  attempts: number;
+  outcome: RequestResult;
+  error?: string;
+}
+
+export type UsageGroup = "day" | "model" | "provider" | "client";
+
+export interface UsageQuery {
+  from: string;
+  to: string;
+  groupBy: UsageGroup[];
+  /** Null selects requests made without an API key. */
+  apiKeyId?: number | null;
+  clientIp?: string;
+}
+
+export interface UsageRow {
+  day?: string;
+  model?: string;
+  provider?: string | null;
+  client?: string;
+  requests: number;
+  completed: number;
+  cancelled: number;
+  timed_out: number;
+  failed: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  average_time_to_first_token_ms: number | null;
 }
 
 export interface SessionStats {
@@ -98,6 +356,9 @@ export interface SessionStats {
   activeSessions: number;
   totalRequestsToday: number;
   totalRequests: number;
+  completedRequests: number;
+  cancelledRequests: number;
+  timedOutRequests: number;
   averageSessionMinutes: number;
   totalProviderTime: number;
 }
@@ -119,3 +380,62 @@ export interface CompletionMetrics {
   peerId: string;
   timestamp: number;
 }
+
+export type RollupBucket = "hour" | "day";
+
+export type RollupDimension = "provider" | "model";
+
+export interface MetricRollup {
+  bucket: RollupBucket;
+  bucket_start: string;
+  dimension: RollupDimension;
+  dimension_value: string;
+  requests: number;
+  tokens: number;
+  average_tokens_per_second: number | null;
+  p95_tokens_per_second: number | null;
+  uptime_minutes: number;
+}
+
+export interface TimeSeriesQuery {
+  bucket: RollupBucket;
+  dimension: RollupDimension;
+  /** A provider key or model name, or every one when omitted. */
+  value?: string;
+  from: string;
+  to: string;
+}
+
+export type PeerAccessListType = "ban" | "allow";
+
+export type PeerAccessTarget = "key" | "host";
+
+export interface PeerAccessEntry {
+  id: number;
+  list: PeerAccessListType;
+  target: PeerAccessTarget;
+  /** A hex peer key or an IP address. */
+  value: string;
+  reason: string | null;
+  expires_at: string | null;
+  created_at: string;
+}
+
+export type JoinRejectionReason =
+  | "banned"
+  | "not_allowed"
+  | "version_mismatch"
+  | "invalid_models"
+  | "unsigned"
+  | "invalid_signature"
+  | "server_key_mismatch"
+  | "discovery_key_mismatch";
+
+export interface JoinRejectionRow {
+  peer_key: string;
+  remote_host: string | null;
+  reason: JoinRejectionReason;
+  count: number;
+  first_rejected_at: string;
+  last_rejected_at: string;
+}
@@ -0,0 +1,51 @@
+import { DEFAULT_USAGE_DAYS, USAGE_GROUPS } from "./constants";
+import { UsageGroup, UsageQuery } from "./types";
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface UsageParams {
+  from?: string;
+  to?: string;
+  group_by?: string;
+}
+
+/**
+ * Reads the date range and grouping shared by `GET /v1/usage` and the
+ * `usage` command. A date-only `to` includes that whole day. Returns an error
+ * message when a value is invalid.
+ */
+export const parseUsageQuery = (
+  params: UsageParams
+): Omit<UsageQuery, "apiKeyId" | "clientIp"> | string => {
+  const now = Date.now();
+  const from = params.from
+    ? Date.parse(params.from)
+    : now - DEFAULT_USAGE_DAYS * DAY_MS;
+  const to = params.to
+    ? Date.parse(params.to) + (DATE_ONLY.test(params.to) ? DAY_MS : 0)
+    : now;
+
+  if (Number.isNaN(from)) return `Invalid from date: ${params.from}`;
+  if (Number.isNaN(to)) return `Invalid to date: ${params.to}`;
+
+  const groupBy = (params.group_by ?? "day")
+    .split(",")
+    .map((group) => group.trim())
+    .filter(Boolean);
+
+  const invalid = groupBy.find(
+    (group) => !USAGE_GROUPS.includes(group as UsageGroup)
+  );
+  if (invalid) {
+    return `Invalid group_by: ${invalid}, expected one of ${USAGE_GROUPS.join(
+      ", "
+    )}`;
+  }
+
+  return {
+    from: new Date(from).toISOString(),
+    to: new Date(to).toISOString(),
+    groupBy: [...new Set(groupBy)] as UsageGroup[],
+  };
+};
@@ -1,8 +1,11 @@
 import { safeParseJson, ServerMessageKey } from "symmetry-core";
 
-import { ClientMessage } from "./types";
+import { ClientMessage, ExtendedServerMessageKey } from "./types";
 
-export function createMessage<T>(key: ServerMessageKey, data?: T): string {
+export function createMessage<T>(
+  key: ServerMessageKey | ExtendedServerMessageKey,
+  data?: T
+): string {
   return JSON.stringify({ key, data });
 }
 
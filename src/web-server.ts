@@ -1,36 +1,123 @@
-import Fastify, { FastifyReply } from "fastify";
+import Fastify, {
+  FastifyInstance,
+  FastifyReply,
+  FastifyRequest,
+} from "fastify";
 import fastifyWebsocket, { WebSocket } from "@fastify/websocket";
 import fastifyCors from "@fastify/cors";
-import { InferenceRequest, Peer, serverMessageKeys } from "symmetry-core";
+import crypto from "node:crypto";
+import { Peer, serverMessageKeys } from "symmetry-core";
 
 import { createMessage } from "./utils";
 import { logger } from "./logger";
+import { InferenceRegistry, PendingInference } from "./inference-registry";
+import {
+  DEFAULT_FIRST_TOKEN_TIMEOUT_MS,
+  DEFAULT_IDLE_STREAM_TIMEOUT_MS,
+  extendedServerMessageKeys,
+  MAX_RANDOM_PEER_REQUEST_ATTEMPTS,
+  PROVIDER_HEADER,
+  RATE_LIMIT_HEADERS,
+} from "./constants";
+import {
+  encodeCursor,
+  parseProviderQuery,
+  ProviderParams,
+} from "./provider-directory";
+import { MetricRollupRepository } from "./metric-rollup-repository";
+import { registry, serverMetrics } from "./prometheus";
 import { PeerRepository } from "./provider-repository";
+import { ProviderSelector } from "./provider-selector";
 import { ProviderSessionRepository } from "./provider-session-repository";
-import { MessageRepository } from "./message-repository";
+import { ApiKeyRepository } from "./api-key-repository";
 import { ServerConfig } from "./server-config";
+import {
+  createAnthropicError,
+  createAnthropicFormat,
+  MessagesBody,
+  parseMessagesRequest,
+} from "./anthropic";
+import {
+  ChatCompletionBody,
+  CompletionRequest,
+  createOpenAIError,
+  createUsage,
+  mergeToolCalls,
+  openAIFormat,
+  parseCompletionRequest,
+} from "./openai";
+import { LeaderboardParams, parseLeaderboardQuery } from "./leaderboard";
+import { RateLimiter, toRateLimitHeaders } from "./rate-limiter";
+import { RequestQueue } from "./request-queue";
+import { RequestRepository } from "./request-repository";
+import { ResponseFormat } from "./response-format";
+import { RewardEngine } from "./reward-engine";
+import { RewardRepository } from "./reward-repository";
+import { StreamNormalizer } from "./stream-normalizer";
+import { parseTimeSeriesQuery, TimeSeriesParams } from "./timeseries";
+import { parseUsageQuery, UsageParams } from "./usage";
+import {
+  CompletionDelta,
+  CompletionMetrics,
+  ModelSummary,
+  RateLimitIdentity,
+  RateLimitRule,
+  RequestClient,
+  RequestOutcome,
+  RequestResult,
+  ServerInferenceRequest,
+} from "./types";
+
+const EXPOSED_HEADERS = [PROVIDER_HEADER, ...RATE_LIMIT_HEADERS].join(", ");
+
+type DispatchResult = "dispatched" | "saturated" | "failed";
 
 export class WebServer {
+  private _apiKeyRepository: ApiKeyRepository;
   private _config: ServerConfig;
-  private _messageRepository: MessageRepository;
+  private _inferences: InferenceRegistry;
+  private _metricRollupRepository: MetricRollupRepository;
   private _peerRepository: PeerRepository;
+  private _providerSelector: ProviderSelector;
   private _providerSessionRepository: ProviderSessionRepository;
-  private _server = Fastify();
-  private readonly MAX_HTTP_REQUESTS = 100;
-  private readonly TIME_WINDOW = 60;
+  private _rateLimiter: RateLimiter;
+  private _requestQueue: RequestQueue;
+  private _requestRepository: RequestRepository;
+  private _rewardEngine: RewardEngine;
+  private _rewardRepository: RewardRepository;
+  private _server: FastifyInstance;
+  private _shuttingDown = false;
   public connectedPeers: Map<string, Peer> = new Map();
-  public httpPeerReplies: Map<string, FastifyReply> = new Map();
 
   constructor(
     config: ServerConfig,
+    inferences: InferenceRegistry,
+    requestQueue: RequestQueue,
     peerRepository: PeerRepository,
+    providerSelector: ProviderSelector,
     providerSessionRepository: ProviderSessionRepository,
-    messageRepository: MessageRepository
+    rateLimiter: RateLimiter,
+    apiKeyRepository: ApiKeyRepository,
+    requestRepository: RequestRepository,
+    rewardRepository: RewardRepository,
+    rewardEngine: RewardEngine,
+    metricRollupRepository: MetricRollupRepository
   ) {
     this._config = config;
+    this._server = Fastify({
+      trustProxy: config.get("trustedProxies") ?? false,
+    });
+    this._inferences = inferences;
+    this._requestQueue = requestQueue;
     this._peerRepository = peerRepository;
+    this._providerSelector = providerSelector;
     this._providerSessionRepository = providerSessionRepository;
-    this._messageRepository = messageRepository;
+    this._rateLimiter = rateLimiter;
+    this._apiKeyRepository = apiKeyRepository;
+    this._requestRepository = requestRepository;
+    this._rewardRepository = rewardRepository;
+    this._rewardEngine = rewardEngine;
+    this._metricRollupRepository = metricRollupRepository;
   }
 
   public async initialise() {
@@ -39,72 +126,242 @@ export class WebServer {
       origin: this._config.get("allowedOrigins"),
       methods: ["GET", "POST"],
       credentials: true,
+      exposedHeaders: RATE_LIMIT_HEADERS,
+    });
+
+    this._server.addHook("onRequest", async (_request, reply) => {
+      if (!this._shuttingDown) return;
+      reply
+        .code(503)
+        .header("Connection", "close")
+        .send(createOpenAIError("Server is shutting down", "server_error"));
+      return reply;
+    });
+
+    // Measured on the raw response, which also covers hijacked streams.
+    this._server.addHook("onRequest", async (request, reply) => {
+      const startedAt = performance.now();
+      reply.raw.once("close", () => {
+        const labels = {
+          method: request.method,
+          route: request.routeOptions.url ?? "unmatched",
+          status: String(reply.raw.statusCode),
+        };
+        serverMetrics.httpRequests.inc(labels);
+        serverMetrics.httpRequestDuration.observe(
+          labels,
+          (performance.now() - startedAt) / 1000
+        );
+      });
     });
 
     this._server.post("/v1/chat/completions", async (request, reply) => {
-      const clientIp =
-        request.headers["x-forwarded-for"]?.toString() || request.ip;
-      const messageCount = await this._messageRepository.getMessageCount(
-        clientIp,
-        this.TIME_WINDOW
+      const completionRequest = parseCompletionRequest(
+        request.body as ChatCompletionBody
       );
 
-      if (
-        messageCount &&
-        messageCount.message_count >= this.MAX_HTTP_REQUESTS
-      ) {
-        reply.code(429).send({
-          error: `Rate limit exceeded, max ${this.MAX_HTTP_REQUESTS} requests per ${this.TIME_WINDOW} minutes`,
-        });
+      if (typeof completionRequest === "string") {
+        reply.code(400).send(createOpenAIError(completionRequest));
         return;
       }
 
-      await this._messageRepository.incrementMessageCount(clientIp);
+      const client = await this.authorize(
+        request,
+        reply,
+        openAIFormat,
+        completionRequest.sessionRequest.modelName
+      );
+      if (!client) return;
 
-      reply.raw.writeHead(200, {
-        "Content-Type": "text/event-stream",
-        "Cache-Control": "no-cache",
-        Connection: "keep-alive",
-        "Access-Control-Allow-Origin": "*",
-      });
+      await this.startInference(
+        request,
+        reply,
+        client,
+        completionRequest,
+        openAIFormat
+      );
+    });
 
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const message = request.body as any;
-      const dbPeer = await this._peerRepository.getRandom(
-        message.sessionRequest
+    this._server.post("/v1/messages", async (request, reply) => {
+      const completionRequest = parseMessagesRequest(
+        request.body as MessagesBody
       );
 
-      if (!dbPeer) {
-        reply.raw.end('data: {"error":"No peers available"}\n\n');
+      if (typeof completionRequest === "string") {
+        reply.code(400).send(createAnthropicError(completionRequest));
         return;
       }
 
-      const peer = this.connectedPeers.get(dbPeer.key);
+      const format = createAnthropicFormat();
+      const client = await this.authorize(
+        request,
+        reply,
+        format,
+        completionRequest.sessionRequest.modelName
+      );
+      if (!client) return;
 
-      if (!peer) return;
+      await this.startInference(
+        request,
+        reply,
+        client,
+        completionRequest,
+        format
+      );
+    });
 
-      const peerKey = dbPeer.key;
-      this.httpPeerReplies.set(peerKey, reply);
+    this._server.get("/v1/usage", async (request, reply) => {
+      const client = await this.authenticate(request, reply, openAIFormat);
+      if (!client) return;
+
+      const query = parseUsageQuery(request.query as UsageParams);
+
+      if (typeof query === "string") {
+        reply.code(400).send(createOpenAIError(query));
+        return;
+      }
+
+      const data = await this._requestRepository.getUsage({
+        ...query,
+        ...(client.apiKey
+          ? { apiKeyId: client.apiKey.id }
+          : { apiKeyId: null, clientIp: client.ip }),
+      });
+
+      return { object: "list", from: query.from, to: query.to, data };
+    });
+
+    this._server.get("/v1/leaderboard", async (request, reply) => {
+      const query = parseLeaderboardQuery(request.query as LeaderboardParams);
+
+      if (typeof query === "string") {
+        reply.code(400).send(createOpenAIError(query));
+        return;
+      }
+
+      const data = await this._rewardRepository.getLeaderboard(
+        query.limit,
+        query.days
+      );
 
-      const inferenceRequest: InferenceRequest = {
-        messages: message.data.messages,
-        key: peer.remotePublicKey.toString("hex"),
+      return { object: "list", period: query.period, data };
+    });
+
+    this._server.get("/v1/models", async () => {
+      const models = await this._peerRepository.getModels();
+      return {
+        object: "list",
+        data: models.map((model) => this.toOpenAIModel(model)),
       };
+    });
+
+    this._server.get("/v1/models/*", async (request, reply) => {
+      const { "*": modelName } = request.params as { "*": string };
+      const [model] = await this._peerRepository.getModels(modelName);
+
+      if (!model) {
+        reply
+          .code(404)
+          .send(
+            createOpenAIError(
+              `The model '${modelName}' does not exist`,
+              "invalid_request_error",
+              "model_not_found"
+            )
+          );
+        return;
+      }
 
-      const data = createMessage(serverMessageKeys.inference, inferenceRequest);
+      return this.toOpenAIModel(model);
+    });
+
+    this._server.get("/v1/providers", async (request, reply) => {
+      const query = parseProviderQuery(request.query as ProviderParams);
 
-      peer.write(data);
+      if (typeof query === "string") {
+        reply.code(400).send(createOpenAIError(query));
+        return;
+      }
 
-      request.raw.on("close", () => {
-        this.httpPeerReplies.delete(peerKey);
+      const providers = await this._peerRepository.getProviders({
+        ...query,
+        limit: query.limit + 1,
       });
+      const data = providers.slice(0, query.limit);
+      const hasMore = providers.length > query.limit;
+
+      return {
+        object: "list",
+        data,
+        has_more: hasMore,
+        next_cursor: hasMore
+          ? encodeCursor(query.sort, data[data.length - 1])
+          : null,
+      };
+    });
+
+    this._server.get("/v1/providers/:id", async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const provider = await this._peerRepository.getProvider(id);
+
+      if (!provider) {
+        reply
+          .code(404)
+          .send(
+            createOpenAIError(
+              `The provider '${id}' does not exist`,
+              "invalid_request_error",
+              "provider_not_found"
+            )
+          );
+        return;
+      }
+
+      return provider;
+    });
+
+    this._server.get("/v1/timeseries", async (request, reply) => {
+      const query = parseTimeSeriesQuery(request.query as TimeSeriesParams);
+
+      if (typeof query === "string") {
+        reply.code(400).send(createOpenAIError(query));
+        return;
+      }
+
+      const data = await this._metricRollupRepository.getSeries(query);
+
+      return {
+        object: "list",
+        bucket: query.bucket,
+        dimension: query.dimension,
+        from: query.from,
+        to: query.to,
+        data,
+      };
+    });
+
+    this._server.get("/metrics", async (_request, reply) => {
+      serverMetrics.connectedPeers.set({}, this.connectedPeers.size);
+      serverMetrics.onlineModels.set(
+        {},
+        await this._peerRepository.getActiveModelCount()
+      );
+      serverMetrics.inferencesInFlight.set({}, this._inferences.size);
+
+      reply
+        .header("Content-Type", "text/plain; version=0.0.4; charset=utf-8")
+        .send(registry.render());
     });
 
     const WEBSOCKET_INTERVAL = 5000;
 
     this._server.get("/ws", { websocket: true }, (ws) => {
       this.sendStats(ws);
-      setInterval(() => this.sendStats(ws), WEBSOCKET_INTERVAL);
+      const interval = setInterval(
+        () => this.sendStats(ws),
+        WEBSOCKET_INTERVAL
+      );
+      ws.on("close", () => clearInterval(interval));
     });
 
     try {
@@ -116,6 +373,659 @@ export class WebServer {
     }
   }
 
+  /**
+   * Identifies the client by API key, or by IP address when keys are not
+   * required, without counting the request against its limits. Read-only
+   * endpoints use this directly. Returns undefined once an error has been
+   * sent.
+   */
+  private async authenticate(
+    request: FastifyRequest,
+    reply: FastifyReply,
+    format: ResponseFormat
+  ): Promise<RequestClient | undefined> {
+    const ip = request.ip;
+    const token = this.getApiKey(request);
+
+    if (!token) {
+      if (this._config.get("requireApiKeys")) {
+        reply
+          .code(401)
+          .send(format.error("Missing API key", "invalid_api_key"));
+        return;
+      }
+      return { ip };
+    }
+
+    const apiKey = await this._apiKeyRepository.findByKey(token);
+
+    if (!apiKey) {
+      reply.code(401).send(format.error("Invalid API key", "invalid_api_key"));
+      return;
+    }
+
+    return { ip, apiKey };
+  }
+
+  /**
+   * Authenticates the client and applies its limits. Keys restricted to some
+   * models are checked against `modelName`. Returns undefined once an error
+   * has been sent.
+   */
+  private async authorize(
+    request: FastifyRequest,
+    reply: FastifyReply,
+    format: ResponseFormat,
+    modelName?: string
+  ): Promise<RequestClient | undefined> {
+    const client = await this.authenticate(request, reply, format);
+    if (!client) return;
+
+    const { ip, apiKey } = client;
+    const route = request.routeOptions.url ?? request.url;
+
+    const reject = (statusCode: number, message: string, code: string) => {
+      reply.code(statusCode).send(format.error(message, code));
+      return undefined;
+    };
+
+    if (!apiKey) {
+      const allowed = await this.applyRateLimit(reply, format, "ip", ip, route);
+      return allowed ? client : undefined;
+    }
+
+    if (
+      modelName &&
+      apiKey.allowed_models &&
+      !apiKey.allowed_models.includes(modelName)
+    ) {
+      return reject(
+        403,
+        `This API key is not allowed to use the model '${modelName}'`,
+        "model_not_allowed"
+      );
+    }
+
+    if (
+      apiKey.daily_token_quota !== null &&
+      apiKey.tokens_today >= apiKey.daily_token_quota
+    ) {
+      return reject(429, "Daily token quota exceeded", "insufficient_quota");
+    }
+
+    const rules = this._rateLimiter.getRules("apiKey", route);
+
+    if (apiKey.requests_per_minute) {
+      rules.push({
+        identity: "apiKey",
+        limit: apiKey.requests_per_minute,
+        windowSeconds: 60,
+      });
+    }
+
+    const allowed = await this.applyRateLimit(
+      reply,
+      format,
+      "apiKey",
+      String(apiKey.id),
+      route,
+      rules
+    );
+    if (!allowed) return;
+
+    await this._apiKeyRepository.logRequest(apiKey.id);
+    return client;
+  }
+
+  private getApiKey(request: FastifyRequest) {
+    const authorization = request.headers.authorization;
+    if (authorization?.startsWith("Bearer ")) {
+      return authorization.slice("Bearer ".length).trim();
+    }
+    return request.headers["x-api-key"]?.toString();
+  }
+
+  /**
+   * Counts the request against the client's rate limits and adds the
+   * `X-RateLimit-*` headers. Returns false once a 429 has been sent.
+   */
+  private async applyRateLimit(
+    reply: FastifyReply,
+    format: ResponseFormat,
+    identity: RateLimitIdentity,
+    value: string,
+    route: string,
+    rules?: RateLimitRule[]
+  ) {
+    const result = await this._rateLimiter.hit(identity, value, route, rules);
+    if (!result) return true;
+
+    const headers = toRateLimitHeaders(result);
+
+    if (!result.allowed) {
+      logger.warn(`Rate limit exceeded for ${identity} ${value} on ${route}`);
+      serverMetrics.rateLimitRejections.inc({ identity });
+      reply
+        .code(429)
+        .headers(headers)
+        .send(
+          format.error(
+            `Rate limit exceeded, retry in ${result.retryAfterSeconds} seconds`,
+            "rate_limit_exceeded"
+          )
+        );
+      return false;
+    }
+
+    for (const [name, headerValue] of Object.entries(headers)) {
+      reply.raw.setHeader(name, headerValue);
+    }
+    return true;
+  }
+
+  private async startInference(
+    request: FastifyRequest,
+    reply: FastifyReply,
+    client: RequestClient,
+    completionRequest: CompletionRequest,
+    format: ResponseFormat
+  ) {
+    const affinityKey =
+      request.headers["x-symmetry-session"]?.toString() || client.ip;
+
+    reply.hijack();
+
+    const inference: PendingInference = {
+      id: crypto.randomUUID(),
+      peerKey: "",
+      reply,
+      startedAt: Date.now(),
+      clientIp: client.ip,
+      ...completionRequest,
+      format,
+      content: "",
+      toolCalls: [],
+      affinityKey,
+      apiKeyId: client.apiKey?.id,
+      attempts: 0,
+      triedPeerKeys: new Set(),
+    };
+
+    reply.raw.on("close", () => {
+      if (this._inferences.get(inference.id)) this.cancelInference(inference);
+      this.finishInference(inference);
+      this.recordRequest(inference, "cancelled");
+    });
+
+    await this.dispatchInference(inference);
+  }
+
+  private toOpenAIModel(model: ModelSummary) {
+    const inFlight = this._inferences.countForModel(model.model_name);
+    return {
+      id: model.model_name,
+      object: "model",
+      created: model.created,
+      owned_by: "symmetry",
+      provider_count: model.provider_count,
+      free_capacity: Math.max(0, model.free_capacity - inFlight),
+      average_tokens_per_second: model.average_tokens_per_second,
+    };
+  }
+
+  private get maxProviderAttempts() {
+    return (
+      this._config.get("maxProviderAttempts") ??
+      MAX_RANDOM_PEER_REQUEST_ATTEMPTS
+    );
+  }
+
+  private async dispatchInference(inference: PendingInference) {
+    const result = await this.tryDispatchInference(inference);
+
+    if (result === "saturated") return this.enqueueInference(inference);
+    if (result === "failed") this.endInference(inference, "No peers available");
+  }
+
+  /**
+   * Sends the inference to the next provider for the requested model. Providers
+   * that were already tried are skipped, and ones that are selected but not
+   * connected count as a failed attempt. Reports "saturated" when providers
+   * are online but all of them are at capacity.
+   */
+  private async tryDispatchInference(
+    inference: PendingInference
+  ): Promise<DispatchResult> {
+    try {
+      while (inference.attempts < this.maxProviderAttempts) {
+        const provider = await this._providerSelector.select(
+          inference.sessionRequest,
+          inference.affinityKey,
+          inference.triedPeerKeys
+        );
+
+        if (!provider) {
+          const saturated = await this._providerSelector.isSaturated(
+            inference.sessionRequest,
+            inference.triedPeerKeys
+          );
+          return saturated ? "saturated" : "failed";
+        }
+
+        inference.attempts++;
+        inference.triedPeerKeys.add(provider.key);
+
+        const peer = this.connectedPeers.get(provider.key);
+
+        if (!peer) {
+          logger.warn(`Provider ${provider.key} is not connected, retrying`);
+          continue;
+        }
+
+        inference.peerKey = provider.key;
+        inference.metrics = undefined;
+        inference.normalizer = new StreamNormalizer(provider.provider);
+        this._inferences.add(inference);
+
+        // Providers echo `key` back in inferenceEnded and inferenceError.
+        const inferenceRequest: ServerInferenceRequest = {
+          ...inference.parameters,
+          messages: inference.messages,
+          model: inference.sessionRequest.modelName,
+          key: inference.id,
+          requestId: inference.id,
+        };
+
+        peer.write(
+          createMessage(serverMessageKeys.inference, inferenceRequest)
+        );
+
+        // Streams that waited in the queue already sent their headers without
+        // X-Symmetry-Provider, so they learn the provider from this comment.
+        if (inference.reply.raw.headersSent) {
+          inference.reply.raw.write(`: provider ${provider.key}\n\n`);
+        }
+
+        this.startStreamTimeout(
+          inference,
+          "First token timeout",
+          this._config.get("firstTokenTimeoutMs") ??
+            DEFAULT_FIRST_TOKEN_TIMEOUT_MS
+        );
+        return "dispatched";
+      }
+    } catch (error) {
+      logger.error(`🚨 Failed to dispatch inference ${inference.id}:`, error);
+    }
+
+    return "failed";
+  }
+
+  private enqueueInference(inference: PendingInference) {
+    const queued = this._requestQueue.enqueue({
+      id: inference.id,
+      modelName: inference.sessionRequest.modelName,
+      tryDispatch: async () => {
+        if (inference.reply.raw.closed) return true;
+        const result = await this.tryDispatchInference(inference);
+        if (result === "saturated") return false;
+        if (result === "failed") {
+          this.endInference(inference, "No peers available");
+        }
+        return true;
+      },
+      onPosition: (position) => {
+        if (!inference.stream) return;
+        this.writeHead(inference);
+        inference.reply.raw.write(`: queue position ${position}\n\n`);
+      },
+      onTimeout: () =>
+        this.endInference(inference, "Timed out waiting for a provider"),
+      onClosed: () =>
+        this.endInference(inference, "Server is shutting down", 503),
+    });
+
+    if (!queued) {
+      this.endInference(inference, "All providers are busy", 503);
+    }
+  }
+
+  private startStreamTimeout(
+    inference: PendingInference,
+    reason: string,
+    timeoutMs: number
+  ) {
+    clearTimeout(inference.streamTimeout);
+    inference.streamTimeout = setTimeout(
+      () => this.handleStreamTimeout(inference, reason),
+      timeoutMs
+    );
+  }
+
+  /**
+   * Gives up on a provider that stopped streaming. The provider is told to
+   * cancel and the timeout counts against its session, which keeps the slot
+   * if it may ignore the cancel. Before the first token the request can move
+   * to another provider; after it, the client gets a timeout error.
+   */
+  private handleStreamTimeout(inference: PendingInference, reason: string) {
+    this.sendCancel(inference);
+    this._inferences.abandon(inference);
+    this.logOutcome(inference, "timed_out");
+
+    if (
+      !inference.firstChunkAt &&
+      (this._config.get("reselectOnTimeout") ?? true)
+    ) {
+      return this.retryInference(inference, reason);
+    }
+
+    logger.warn(
+      `🕛 Inference ${inference.id} timed out on ${inference.peerKey}: ${reason}`
+    );
+    this.endInference(inference, reason, 504, "timeout");
+  }
+
+  private retryInference(inference: PendingInference, reason: string) {
+    clearTimeout(inference.streamTimeout);
+    logger.warn(
+      `Inference ${inference.id} failed on ${inference.peerKey}: ${reason}`
+    );
+
+    if (inference.firstChunkAt || inference.reply.raw.closed) {
+      return this.endInference(inference, `Peer error: ${reason}`);
+    }
+
+    this.finishInference(inference);
+    this.dispatchInference(inference);
+  }
+
+  private writeHead(inference: PendingInference, statusCode = 200) {
+    const raw = inference.reply.raw;
+    if (raw.headersSent) return;
+    raw.writeHead(statusCode, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Expose-Headers": EXPOSED_HEADERS,
+      ...(inference.peerKey && { [PROVIDER_HEADER]: inference.peerKey }),
+    });
+  }
+
+  private sendJson(
+    inference: PendingInference,
+    statusCode: number,
+    body: unknown
+  ) {
+    inference.reply.raw.writeHead(statusCode, {
+      "Content-Type": "application/json",
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Expose-Headers": EXPOSED_HEADERS,
+      ...(inference.peerKey && { [PROVIDER_HEADER]: inference.peerKey }),
+    });
+    inference.reply.raw.end(JSON.stringify(body));
+  }
+
+  private endInference(
+    inference: PendingInference,
+    error?: string,
+    statusCode?: number,
+    code?: string
+  ) {
+    this.finishInference(inference, error ? undefined : "completed");
+    this.recordRequest(
+      inference,
+      !error ? "completed" : code === "timeout" ? "timed_out" : "failed",
+      error
+    );
+    const raw = inference.reply.raw;
+    if (raw.closed || raw.writableEnded) return;
+
+    if (!inference.stream) {
+      return error
+        ? this.sendJson(
+            inference,
+            statusCode ?? 502,
+            inference.format.error(error, code)
+          )
+        : this.sendJson(inference, 200, inference.format.completion(inference));
+    }
+
+    this.writeHead(inference, statusCode);
+
+    if (error) {
+      return raw.end(inference.format.streamError(inference, error, code));
+    }
+
+    this.startStream(inference);
+    raw.end(inference.format.streamEnd(inference));
+  }
+
+  private startStream(inference: PendingInference) {
+    if (inference.streamStarted) return;
+    inference.streamStarted = true;
+    this.writeHead(inference);
+    inference.reply.raw.write(inference.format.streamStart(inference));
+  }
+
+  private applyDeltas(inference: PendingInference, deltas: CompletionDelta[]) {
+    for (const delta of deltas) {
+      inference.content += delta.content ?? "";
+      if (delta.tool_calls) {
+        mergeToolCalls(inference.toolCalls, delta.tool_calls);
+      }
+      if (delta.finish_reason) inference.finishReason = delta.finish_reason;
+      if (delta.usage) inference.usage = delta.usage;
+
+      if (!inference.stream) continue;
+
+      const output = inference.format.streamDelta(inference, delta);
+      if (!output) continue;
+      this.startStream(inference);
+      inference.reply.raw.write(output);
+    }
+  }
+
+  /**
+   * Releases everything the inference holds. A provider slot freed here is
+   * handed to the next queued request for the model.
+   */
+  private finishInference(
+    inference: PendingInference,
+    outcome?: RequestOutcome
+  ) {
+    clearTimeout(inference.streamTimeout);
+    this._requestQueue.remove(inference.id);
+    if (!this._inferences.delete(inference.id)) return;
+    if (outcome) this.logOutcome(inference, outcome);
+    if (inference.apiKeyId) this.logTokenUsage(inference);
+    this._requestQueue.drain(inference.sessionRequest.modelName);
+  }
+
+  /**
+   * Tells the provider to stop generating for a client that went away, so its
+   * slot is not held by output nobody will read. Providers that may ignore
+   * the cancel keep the slot until they end the request.
+   */
+  private cancelInference(inference: PendingInference) {
+    this.sendCancel(inference);
+    logger.info(`🛑 Inference ${inference.id} cancelled by client`);
+    this._inferences.abandon(inference);
+    this.finishInference(inference, "cancelled");
+  }
+
+  /**
+   * Frees the slot of an abandoned inference the provider has now ended and
+   * hands it to the next queued request.
+   */
+  private releaseAbandoned(peerKey: string, requestId?: string) {
+    const inference = this._inferences.release(peerKey, requestId);
+    if (!inference) return false;
+    logger.info(
+      `Provider ${peerKey} ended abandoned inference ${inference.id}`
+    );
+    this._requestQueue.drain(inference.sessionRequest.modelName);
+    return true;
+  }
+
+  private sendCancel(inference: PendingInference) {
+    const peer = this.connectedPeers.get(inference.peerKey);
+    peer?.write(
+      createMessage(extendedServerMessageKeys.inferenceCancel, {
+        key: inference.id,
+        requestId: inference.id,
+      })
+    );
+  }
+
+  private async logOutcome(
+    inference: PendingInference,
+    outcome: RequestOutcome
+  ) {
+    try {
+      await this._providerSessionRepository.logRequestOutcome(
+        inference.peerKey,
+        outcome
+      );
+    } catch (error) {
+      logger.error(
+        `🚨 Failed to record ${outcome} inference ${inference.id}:`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Adds the request to the usage ledger once it has ended, whichever way it
+   * ended.
+   */
+  private async recordRequest(
+    inference: PendingInference,
+    outcome: RequestResult,
+    error?: string
+  ) {
+    if (inference.endedAt) return;
+    inference.endedAt = Date.now();
+
+    const usage = createUsage(inference);
+
+    try {
+      await this._requestRepository.record({
+        id: inference.id,
+        apiKeyId: inference.apiKeyId,
+        clientIp: inference.clientIp,
+        modelName: inference.sessionRequest.modelName,
+        peerKey: inference.peerKey,
+        startedAt: inference.startedAt,
+        endedAt: inference.endedAt,
+        timeToFirstTokenMs:
+          inference.firstChunkAt &&
+          inference.firstChunkAt - inference.startedAt,
+        promptTokens: usage.prompt_tokens,
+        completionTokens: usage.completion_tokens,
+        attempts: inference.attempts,
+        outcome,
+        error,
+      });
+    } catch (error) {
+      logger.error(`🚨 Failed to record request ${inference.id}:`, error);
+      return;
+    }
+
+    // Only completions the provider sent metrics for are paid.
+    if (outcome === "completed" && inference.metrics) {
+      await this._rewardEngine.rewardCompletion(
+        inference.peerKey,
+        inference.id
+      );
+    }
+  }
+
+  private async logTokenUsage(inference: PendingInference) {
+    const { total_tokens: tokens } = createUsage(inference);
+    if (!inference.apiKeyId || !tokens) return;
+    try {
+      await this._apiKeyRepository.addTokens(inference.apiKeyId, tokens);
+    } catch (error) {
+      logger.error(
+        `🚨 Failed to record token usage for inference ${inference.id}:`,
+        error
+      );
+    }
+  }
+
+  public handleInferenceChunk(
+    peerKey: string,
+    chunk: Buffer | string,
+    requestId?: string
+  ) {
+    const inference = this._inferences.find(peerKey, requestId);
+    if (!inference || inference.reply.raw.closed) return;
+
+    if (requestId) this._inferences.markTagged(peerKey);
+    inference.firstChunkAt ??= Date.now();
+    this.startStreamTimeout(
+      inference,
+      "Idle stream timeout",
+      this._config.get("idleStreamTimeoutMs") ?? DEFAULT_IDLE_STREAM_TIMEOUT_MS
+    );
+
+    this.applyDeltas(inference, inference.normalizer?.push(chunk) ?? []);
+  }
+
+  public handleInferenceMetrics(peerKey: string, metrics: CompletionMetrics) {
+    const inference = this._inferences.find(peerKey, metrics.requestId);
+    if (!inference) return;
+    inference.metrics = metrics;
+    return inference.id;
+  }
+
+  public handleInferenceEnded(peerKey: string, requestId?: string) {
+    if (this.releaseAbandoned(peerKey, requestId)) return;
+    const inference = this._inferences.find(peerKey, requestId);
+    if (!inference) return;
+    this.applyDeltas(inference, inference.normalizer?.flush() ?? []);
+    this.endInference(inference);
+  }
+
+  public handleInferenceError(
+    peerKey: string,
+    error: string,
+    requestId?: string
+  ) {
+    if (this.releaseAbandoned(peerKey, requestId)) return;
+    const inferences = requestId
+      ? [this._inferences.find(peerKey, requestId)]
+      : this._inferences.getForPeer(peerKey);
+
+    for (const inference of inferences) {
+      if (inference) this.retryInference(inference, error);
+    }
+  }
+
+  /**
+   * Refuses new HTTP requests and gives in-flight completions up to
+   * `timeoutMs` to finish. Queued requests, and completions still streaming
+   * at the deadline, end with an error before the HTTP server is closed.
+   */
+  public async shutdown(timeoutMs: number) {
+    this._shuttingDown = true;
+    this._requestQueue.close();
+
+    const deadline = Date.now() + timeoutMs;
+    while (this._inferences.size && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+
+    for (const inference of this._inferences.all()) {
+      this.sendCancel(inference);
+      this.endInference(inference, "Server is shutting down", 503);
+    }
+
+    await this._server.close();
+  }
+
   private async sendStats(ws: WebSocket) {
     const stats = await this.getStats();
     ws.send(JSON.stringify(stats));